@@ -1,5 +1,22 @@
+export * from './tools/chai-events'
+export * from './tools/create2'
+export * from './tools/deployments'
+export * from './tools/error-wrapper'
 export * from './tools/event-filters'
 export * from './tools/event-listener'
+export * from './tools/event-query'
 export * from './tools/event-wrapper'
+export * from './tools/events-snapshot'
+export * from './tools/fixture'
+export * from './tools/interface-compat'
+export * from './tools/gas-recorder'
+export * from './tools/known-contracts'
+export * from './tools/projection'
+export * from './tools/proxy'
+export * from './tools/receipt-decoder'
+export * from './tools/revert'
+export * from './tools/signers'
 export * from './tools/time'
+export * from './tools/trace'
 export * from './tools/transaction'
+export * from './tools/value-matchers'
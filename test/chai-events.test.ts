@@ -0,0 +1,53 @@
+import chai, {expect} from 'chai'
+import {BigNumber} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {typedEventsPlugin} from '../tools/chai-events'
+import {EventFactory, wrapEventType} from '../tools/event-wrapper'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+chai.use(typedEventsPlugin)
+
+describe('chai events', () => {
+    let box: types.Box
+    let stored: EventFactory<
+        [string, BigNumber],
+        {by: string; value: BigNumber}
+    >
+
+    before(async () => {
+        box = await new types.Box__factory(deployer).deploy()
+        stored = wrapEventType('Stored', box)
+    })
+
+    it('expects a typed event of a transaction', async () => {
+        await expect(box.store(1)).to.emitTyped(stored)
+        await expect(box.store(2)).to.emitTyped(stored).withArgs({value: 2})
+        await expect(box.storeTwice(3, 3))
+            .to.emitTyped(stored)
+            .withArgs({value: 3})
+            .times(2)
+        await expect(box.storeTwice(4, 5))
+            .to.emitTyped(stored)
+            .inOrder({value: 4}, {value: 5})
+        await expect(box.store(6)).not.to.emitTyped(stored).withArgs({value: 7})
+    })
+
+    it('fails on unmatched events', async () => {
+        const receipt = await (await box.storeTwice(8, 9)).wait()
+        await expect(
+            expect(receipt).to.emitTyped(stored).withArgs({value: 1})
+        ).is.rejectedWith('Expected event Stored with given args to be emitted')
+        await expect(
+            expect(receipt).to.emitTyped(stored).times(1)
+        ).is.rejectedWith(
+            'Expected event Stored to be emitted 1 time(s), but it was emitted 2 time(s)'
+        )
+        await expect(expect(receipt).not.to.emitTyped(stored)).is.rejectedWith(
+            'Expected event Stored not to be emitted, but it was emitted 2 time(s)'
+        )
+        await expect(
+            expect(receipt).to.emitTyped(stored).inOrder({value: 9}, {value: 8})
+        ).is.rejectedWith('Expected events Stored in order')
+    })
+})
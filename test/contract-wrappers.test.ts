@@ -0,0 +1,131 @@
+import {expect} from 'chai'
+import {BigNumber, utils} from 'ethers'
+import {describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {wrapEventType} from '../tools/event-wrapper'
+import {fixture} from '../tools/fixture'
+import {expectUpgraded, implementationOf} from '../tools/proxy'
+import {deployer, provider} from './support/chain'
+import * as types from './support/contracts'
+
+describe('contract wrappers', () => {
+    describe('libraries', () => {
+        it('deploys a library once and links it', async () => {
+            const factories = wrapImportedFactories(types, deployer)
+            const calculator = await factories.deploy('Calculator', [])
+            expect((await calculator.triple(3)).toNumber()).eq(9)
+
+            const blockNumber = await provider.getBlockNumber()
+            await factories.deploy('Calculator', [])
+            expect(await provider.getBlockNumber()).eq(blockNumber + 1)
+        })
+
+        it('links libraries by given addresses', async () => {
+            const library = await new types.MathLib__factory(deployer).deploy()
+            const factories = wrapImportedFactories(types, deployer, {
+                libraries: {MathLib: library.address}
+            })
+            const blockNumber = await provider.getBlockNumber()
+            const calculator = await factories.deploy('Calculator', [])
+            expect(await provider.getBlockNumber()).eq(blockNumber + 1)
+            expect((await calculator.triple(1)).toNumber()).eq(3)
+        })
+
+        it('deploys a library again after a revert of a fixture', async () => {
+            const factories = wrapImportedFactories(types, deployer)
+            const emptyFixture = fixture(() => Promise.resolve({}), {provider})
+            const calculatorFixture = fixture(
+                async () => {
+                    await emptyFixture()
+                    return {
+                        calculator: await factories.deploy('Calculator', [])
+                    }
+                },
+                {provider}
+            )
+            await calculatorFixture()
+
+            // the chain is reverted to a state before the library
+            await emptyFixture()
+            const calculator = await factories.deploy('Calculator', [])
+            expect((await calculator.triple(2)).toNumber()).eq(6)
+        })
+
+        it('fails to link a library without its factory', async () => {
+            const factories = wrapImportedFactories(
+                // eslint-disable-next-line camelcase
+                {Calculator__factory: types.Calculator__factory},
+                deployer
+            )
+            await expect(factories.deploy('Calculator', [])).is.rejectedWith(
+                'Library contracts/Token.sol:MathLib is not linked and its factory is missing'
+            )
+        })
+    })
+
+    describe('deployWithReceipt', () => {
+        const factories = wrapImportedFactories(types, deployer)
+
+        it('returns a receipt of a deployment', async () => {
+            const owner = await deployer.getAddress()
+            const value = utils.parseEther('0.5')
+            const {contract, receipt, gasUsed, address} =
+                await factories.deployWithReceipt('Vault', [owner], {value})
+
+            expect(address).eq(contract.address)
+            expect(receipt.contractAddress).eq(contract.address)
+            expect(gasUsed.eq(receipt.gasUsed)).is.true
+            expect(await provider.getBalance(address)).deep.eq(value)
+
+            const deposited = wrapEventType<
+                [string, BigNumber],
+                {owner: string; amount: BigNumber}
+            >('Deposited', contract)
+            deposited.expectOne(receipt, {owner, amount: value})
+        })
+
+        it('deploys without overrides', async () => {
+            const {contract, receipt} = await factories.deployWithReceipt(
+                'Token',
+                [10]
+            )
+            expect(receipt.status).eq(1)
+            expect(
+                (
+                    await contract.balanceOf(await deployer.getAddress())
+                ).toNumber()
+            ).eq(10)
+        })
+    })
+
+    describe('attachWithDelegate', () => {
+        const factories = wrapImportedFactories(types, deployer)
+
+        it('attaches at once and awaits the delegate by deployed()', async () => {
+            const box = await new types.Box__factory(deployer).deploy()
+            const proxy = await new types.Proxy1967__factory(deployer).deploy(
+                box.address
+            )
+            let implementation = ''
+            const upgradeContract = factories.attachWithDelegate(
+                async (factory, address) => {
+                    implementation = (await factory.deploy()).address
+                    const tx = await proxy.upgradeTo(implementation)
+                    const contract = factory.attach(address)
+                    utils.defineReadOnly(contract, 'deployTransaction', tx)
+                    return contract
+                }
+            )
+
+            const caller = upgradeContract('BoxCaller', proxy.address)
+            expect(caller.address).eq(proxy.address)
+            expect(await caller.deployed()).eq(caller)
+            expect(
+                await expectUpgraded(caller.deployTransaction, proxy.address)
+            ).eq(implementation)
+            expect(await implementationOf(provider, proxy.address)).eq(
+                implementation
+            )
+        })
+    })
+})
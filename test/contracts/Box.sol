@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.17;
+
+contract Box {
+    event Stored(address indexed by, uint256 value);
+    event Labelled(string indexed label, string text);
+
+    error TooLarge(uint256 value, uint256 max);
+
+    uint256 public constant MAX = 1000;
+    uint256 public value;
+
+    function store(uint256 newValue) external {
+        if (newValue > MAX) {
+            revert TooLarge(newValue, MAX);
+        }
+        value = newValue;
+        emit Stored(msg.sender, newValue);
+    }
+
+    function storeTwice(uint256 first, uint256 second) external {
+        emit Stored(msg.sender, first);
+        emit Stored(msg.sender, second);
+        value = second;
+    }
+
+    function label(string calldata name, string calldata text) external {
+        emit Labelled(name, text);
+    }
+
+    function fail(string calldata reason) external pure {
+        require(false, reason);
+    }
+
+    function divide(uint256 a, uint256 b) external pure returns (uint256) {
+        return a / b;
+    }
+}
+
+contract BoxCaller {
+    event Called(address indexed box, uint256 value);
+
+    function storeTo(Box box, uint256 newValue) external {
+        box.store(newValue);
+        emit Called(address(box), newValue);
+    }
+}
@@ -0,0 +1,70 @@
+import {expect} from 'chai'
+import {utils} from 'ethers'
+import {describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {create2SaltOf, SINGLETON_DEPLOYER} from '../tools/create2'
+import {GasRecorder} from '../tools/gas-recorder'
+import {deployer, provider} from './support/chain'
+import * as types from './support/contracts'
+
+describe('create2', () => {
+    const factories = wrapImportedFactories(types, deployer)
+
+    it('makes salts of numbers and strings', () => {
+        expect(create2SaltOf(1)).eq(utils.hexZeroPad('0x01', 32))
+        expect(create2SaltOf('vault')).eq(utils.id('vault'))
+        expect(create2SaltOf(utils.id('vault'))).eq(utils.id('vault'))
+    })
+
+    it('reports a deployment by the contract type', async () => {
+        const recorder = new GasRecorder().start()
+        try {
+            // the singleton deployer and its funding are not reported
+            await factories.deployDeterministic('Box', [], 'recorded')
+        } finally {
+            recorder.stop()
+        }
+        expect(Object.keys(recorder.snapshot())).deep.eq(['Box.constructor'])
+    })
+
+    it('deploys a contract once at the predicted address', async () => {
+        const owner = await deployer.getAddress()
+        const predicted = await factories.predictAddress(
+            'Vault',
+            [owner],
+            'once'
+        )
+        const vault = await factories.deployDeterministic(
+            'Vault',
+            [owner],
+            'once'
+        )
+        expect(vault.address).eq(predicted)
+        expect(await vault.owner()).eq(owner)
+        expect(await provider.getCode(SINGLETON_DEPLOYER)).not.eq('0x')
+
+        const again = await factories.deployDeterministic(
+            'Vault',
+            [owner],
+            'once'
+        )
+        expect(again.address).eq(predicted)
+        expect(again.deployTransaction).is.not.ok
+    })
+
+    it('passes overrides to the deployer', async () => {
+        const owner = await deployer.getAddress()
+        const value = utils.parseEther('1')
+        const vault = await factories.deployDeterministic(
+            'Vault',
+            [owner, {value}],
+            'payable'
+        )
+        expect(await provider.getBalance(vault.address)).deep.eq(value)
+        expect(vault.deployTransaction.to).eq(SINGLETON_DEPLOYER)
+        expect(vault.deployTransaction.value).deep.eq(value)
+
+        const receipt = await vault.deployTransaction.wait()
+        expect(receipt.status).eq(1)
+    })
+})
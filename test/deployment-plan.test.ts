@@ -0,0 +1,76 @@
+import {expect} from 'chai'
+import {describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {
+    DeploymentPlanFailure,
+    deploymentPlanner,
+    DeploymentPlanProgress
+} from '../tools/deployment-plan'
+import {deployer, provider} from './support/chain'
+import * as types from './support/contracts'
+
+describe('deployment plan', () => {
+    const planner = deploymentPlanner(wrapImportedFactories(types, deployer))
+
+    it('deploys steps in the order of references', async () => {
+        const system = planner.plan({
+            vault: planner.step('Vault', [planner.ref('Box').address]),
+            Box: planner.step('Box', [])
+        })
+        expect(system.order).deep.eq(['Box', 'vault'])
+
+        const {Box, vault} = await system.run()
+        expect(await vault.owner()).eq(Box.address)
+    })
+
+    it('resumes a failed run without repeating completed steps', async () => {
+        let failures = 1
+        const stored: number[] = []
+        const system = planner.plan(
+            {Box: planner.step('Box', []), Token: planner.step('Token', [5])},
+            [
+                async ({Box}) => Box.store(1),
+                async ({Box}) => {
+                    if (failures-- > 0) {
+                        throw new Error('Call has failed')
+                    }
+                    stored.push((await Box.value()).toNumber())
+                }
+            ]
+        )
+
+        let progress: DeploymentPlanProgress
+        try {
+            await system.run()
+            expect.fail('Plan has succeeded')
+        } catch (error: unknown) {
+            expect(error).instanceOf(DeploymentPlanFailure)
+            expect((error as Error).message).eq(
+                'Deployment plan has failed after 2 steps and 1 calls: Error: Call has failed'
+            )
+            progress = (error as DeploymentPlanFailure).progress
+        }
+
+        const blockNumber = await provider.getBlockNumber()
+        const {Box} = await system.run({resume: progress})
+        expect(Box.address).eq(progress.deployed.Box)
+        expect(stored).deep.eq([1])
+        expect(await provider.getBlockNumber()).eq(blockNumber)
+    })
+
+    it('rejects cyclic and unknown references', () => {
+        expect(() =>
+            planner.plan({
+                Box: planner.step('Vault', [
+                    planner.ref('vault', 'Vault').address
+                ]),
+                vault: planner.step('Vault', [planner.ref('Box').address])
+            })
+        ).throws('Cyclic references of steps: Box -> vault -> Box')
+        expect(() =>
+            planner.plan({
+                vault: planner.step('Vault', [planner.ref('Box').address])
+            })
+        ).throws('Step vault refers to an unknown step Box')
+    })
+})
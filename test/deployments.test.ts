@@ -0,0 +1,110 @@
+import {expect} from 'chai'
+import {BigNumber, Wallet} from 'ethers'
+import {mkdtempSync, readFileSync, rmSync} from 'fs'
+import {after, describe, it} from 'mocha'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {
+    deployArgsToJson,
+    DeploymentRecord,
+    DeploymentStore,
+    JsonDeploymentStore
+} from '../tools/deployments'
+import {deployer, provider} from './support/chain'
+import * as types from './support/contracts'
+
+class MemoryDeploymentStore implements DeploymentStore {
+    readonly records = new Map<string, DeploymentRecord>()
+
+    public get(chainId: number, key: string): DeploymentRecord | undefined {
+        return this.records.get(`${chainId}:${key}`)
+    }
+
+    public set(chainId: number, key: string, record: DeploymentRecord): void {
+        this.records.set(`${chainId}:${key}`, record)
+    }
+}
+
+describe('deployments', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'deployments-'))
+
+    after(() => rmSync(dir, {recursive: true, force: true}))
+
+    it('stores deploy args as JSON', () => {
+        expect(
+            deployArgsToJson([BigNumber.from(10), 5n, 'text', [1, true]])
+        ).deep.eq(['10', '5', 'text', [1, true]])
+    })
+
+    it('records deployments to a JSON file', async () => {
+        const path = join(dir, 'deployments.json')
+        const factories = wrapImportedFactories(types, deployer, {
+            deployments: new JsonDeploymentStore(path)
+        })
+        const token = await factories.deploy('Token', [100])
+
+        const record = new JsonDeploymentStore(path).get(31337, 'Token')
+        expect(record?.address).eq(token.address)
+        expect(record?.deployArgs).deep.eq([100])
+        expect(record?.deployer).eq(await deployer.getAddress())
+        expect(readFileSync(path, 'utf8')).match(/\n$/)
+    })
+
+    it('reuses a deployment of the same bytecode and args', async () => {
+        const deployments = new MemoryDeploymentStore()
+        const factories = wrapImportedFactories(types, deployer, {
+            deployments,
+            reuseDeployments: true
+        })
+        const token = await factories.deploy('Token', [100])
+        const reused = await factories.deploy('Token', [100])
+        expect(reused.address).eq(token.address)
+        expect(reused.deployTransaction).is.not.ok
+
+        const changed = await factories.deploy('Token', [200])
+        expect(changed.address).not.eq(token.address)
+        const fresh = await factories.deploy('Token', [200], {reuse: false})
+        expect(fresh.address).not.eq(changed.address)
+    })
+
+    it('reuses a linked deployment without deploying libraries', async () => {
+        const deployments = new MemoryDeploymentStore()
+        const calculator = await wrapImportedFactories(types, deployer, {
+            deployments,
+            reuseDeployments: true
+        }).deploy('Calculator', [])
+        expect((await calculator.triple(2)).toNumber()).eq(6)
+
+        const blockNumber = await provider.getBlockNumber()
+        const reused = await wrapImportedFactories(types, deployer, {
+            deployments,
+            reuseDeployments: true
+        }).deploy('Calculator', [])
+        expect(reused.address).eq(calculator.address)
+        expect(await provider.getBlockNumber()).eq(blockNumber)
+    })
+
+    it('keeps a deployment of another contract type under the alias', async () => {
+        const deployments = new MemoryDeploymentStore()
+        const factories = wrapImportedFactories(types, deployer, {
+            deployments,
+            reuseDeployments: true
+        })
+        const box = await factories.deploy('Box', [], {alias: 'main'})
+        await expect(
+            factories.deploy('Token', [100], {alias: 'main'})
+        ).is.rejectedWith('Deployment main is of contract type Box, not Token')
+        expect(deployments.get(31337, 'main')?.address).eq(box.address)
+    })
+
+    it('requires a provider to check a reused deployment', async () => {
+        const factories = wrapImportedFactories(types, Wallet.createRandom(), {
+            deployments: new MemoryDeploymentStore(),
+            reuseDeployments: true
+        })
+        await expect(factories.deploy('Token', [100])).is.rejectedWith(
+            'Signer has no provider'
+        )
+    })
+})
@@ -0,0 +1,197 @@
+import {expect} from 'chai'
+import {BigNumber, ContractReceipt, utils} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {
+    expectEventCount,
+    expectEvents,
+    expectExactUnorderedEvents,
+    expectNoEvents,
+    expectUnorderedEvents,
+    findEvents
+} from '../tools/event-filters'
+import {EventFactory, wrapEventType} from '../tools/event-wrapper'
+import {indexedHashOf} from '../tools/value-matchers'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('event filters', () => {
+    let box: types.Box
+    let caller: types.BoxCaller
+    let stored: EventFactory<
+        [string, BigNumber],
+        {by: string; value: BigNumber}
+    >
+    let called: EventFactory<
+        [string, BigNumber],
+        {box: string; value: BigNumber}
+    >
+
+    before(async () => {
+        box = await new types.Box__factory(deployer).deploy()
+        caller = await new types.BoxCaller__factory(deployer).deploy()
+        stored = wrapEventType('Stored', box)
+        called = wrapEventType('Called', caller)
+    })
+
+    describe('negative and counted expectations', () => {
+        let receipt: ContractReceipt
+
+        before(async () => {
+            receipt = await (await box.storeTwice(1, 2)).wait()
+        })
+
+        it('expects no events', () => {
+            stored.expectNone(receipt, {value: 3})
+            called.expectNone(receipt)
+            expectNoEvents(receipt, called.newFilter())
+            expect(() => stored.expectNone(receipt, {value: 2})).throws(
+                'Unexpected events were found'
+            )
+        })
+
+        it('expects the number of events', () => {
+            const events = stored.expectCount(receipt, 2)
+            expect(events.map((e) => e.value.toNumber())).deep.eq([1, 2])
+            expect(stored.expectCount(receipt, 1, {value: 1})).has.length(1)
+            expect(() => stored.expectCount(receipt, 1)).throws(
+                'Unexpected number of events'
+            )
+            expect(
+                expectEventCount(
+                    receipt,
+                    2,
+                    stored.newFilter({value: 1}),
+                    stored.newFilter({value: 2})
+                )
+            ).has.length(2)
+        })
+
+        it('finds events without failing', () => {
+            expect(stored.tryAll(receipt)).has.length(2)
+            expect(called.tryAll(receipt)).is.empty
+            expect(
+                findEvents(receipt, stored.newFilter({value: 2}))
+            ).has.length(1)
+        })
+    })
+
+    describe('unordered expectations', () => {
+        let receipt: ContractReceipt
+
+        before(async () => {
+            receipt = await (await box.storeTwice(1, 2)).wait()
+        })
+
+        it('assigns a loose filter to a log not needed by a strict one', () => {
+            expect(() =>
+                expectEvents(
+                    receipt,
+                    stored.newFilter(),
+                    stored.newFilter({value: 1})
+                )
+            ).throws('Not all expected events were found')
+
+            const [any, exact] = expectUnorderedEvents(
+                receipt,
+                stored.newFilter(),
+                stored.newFilter({value: 1})
+            )
+            expect(any.value.toNumber()).eq(2)
+            expect(exact.value.toNumber()).eq(1)
+        })
+
+        it('fails when filters can not take distinct logs', () => {
+            expect(() =>
+                expectUnorderedEvents(
+                    receipt,
+                    stored.newFilter({value: 1}),
+                    stored.newFilter({value: 1})
+                )
+            ).throws('filter #1 (Stored')
+        })
+
+        it('expects no other events of emitters', () => {
+            expectExactUnorderedEvents(
+                receipt,
+                stored.newFilter({value: 2}),
+                stored.newFilter({value: 1})
+            )
+            expect(() =>
+                expectExactUnorderedEvents(receipt, stored.newFilter())
+            ).throws('Unexpected events were found at log indices: 1')
+        })
+    })
+
+    describe('diagnostics of unmatched filters', () => {
+        it('describes logs of the same type and emitter', async () => {
+            const receipt = await (await box.storeTwice(4, 5)).wait()
+            const by = await deployer.getAddress()
+            expect(() =>
+                stored.expectOrdered(receipt, [{value: 4}, {value: 6}])
+            ).throws(
+                [
+                    'Not all expected events were found',
+                    `filter #1 (Stored from ${box.address}) has no match`,
+                    `    log #0 from ${box.address}: taken by filter #0; value: expected 6 (number), actual 4 (BigNumber)`,
+                    `    log #1 from ${box.address}: value: expected 6 (number), actual 5 (BigNumber)`
+                ].join('\n')
+            )
+            expect(() =>
+                stored.expectOrdered(receipt, [{value: 5}, {value: 4}])
+            ).throws('Wrong order of events')
+            expect(() =>
+                stored.expectOrdered(receipt, [{value: 5}, {value: 4}], true)
+            ).throws(
+                `    log #0 from ${box.address}: matches, but is out of order`
+            )
+            expect(() =>
+                stored.expectOrdered(receipt, [{by: caller.address}])
+            ).throws(`by: expected "${caller.address}", actual "${by}"`)
+        })
+
+        it('reports missing events of the type', async () => {
+            const receipt = await (await box.store(7)).wait()
+            expect(() => called.expectOrdered(receipt, [{}])).throws(
+                `    no Called events from ${caller.address}`
+            )
+        })
+    })
+
+    describe('indexed dynamic arguments', () => {
+        let receipt: ContractReceipt
+        let labelled: EventFactory<
+            [utils.Indexed | string, string],
+            {label: utils.Indexed | string; text: string}
+        >
+
+        before(async () => {
+            labelled = wrapEventType('Labelled', box)
+            receipt = await (await box.label('name', 'text')).wait()
+        })
+
+        it('verifies plain values by hash and returns them', () => {
+            const event = labelled.expectOne(receipt, {
+                label: 'name',
+                text: 'text'
+            })
+            expect(event.label).eq('name')
+            expect(event.text).eq('text')
+
+            const [ordered] = labelled.expectOrdered(receipt, [['name']])
+            expect(ordered.label).eq('name')
+            expect(() =>
+                labelled.expectOne(receipt, {label: 'other', text: 'text'})
+            ).throws(
+                'Mismatched value of property Labelled.label: expected "other"'
+            )
+        })
+
+        it('leaves hashes of values which are not given', () => {
+            const event = labelled.expectOne(receipt)
+            expect(utils.Indexed.isIndexed(event.label)).is.true
+            expect((event.label as utils.Indexed).hash).eq(
+                indexedHashOf('name', utils.ParamType.from('string'))
+            )
+        })
+    })
+})
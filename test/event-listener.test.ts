@@ -0,0 +1,88 @@
+import {expect} from 'chai'
+import {BigNumber, Event} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {EventListener, invalidateEventListeners} from '../tools/event-listener'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('event listener', () => {
+    let box: types.Box
+
+    before(async () => {
+        box = await new types.Box__factory(deployer).deploy()
+    })
+
+    // events of earlier tests can be delivered to a new subscription
+    async function storedListener(): Promise<EventListener<number>> {
+        return new EventListener<number>(
+            box,
+            'Stored',
+            (event: Event) => (event.args?.value as BigNumber).toNumber(),
+            await deployer.provider.getBlockNumber()
+        )
+    }
+
+    it('awaits matching events', async () => {
+        const listener = await storedListener()
+        try {
+            await (await box.store(1)).wait()
+            await (await box.store(2)).wait()
+            await (await box.store(3)).wait()
+            expect(
+                await listener.waitFor((value) => value > 1, {count: 2})
+            ).deep.eq([2, 3])
+            expect(listener.events()).deep.eq([1, 2, 3])
+        } finally {
+            listener.stop()
+        }
+    })
+
+    it('fails to await events after a timeout or a stop', async () => {
+        const listener = await storedListener()
+        await expect(
+            listener.waitFor(() => true, {timeoutMs: 50})
+        ).is.rejectedWith('Timeout waiting for Stored: received 0 of 1 events')
+        const pending = listener.waitFor()
+        listener.stop()
+        await expect(pending).is.rejectedWith(
+            'Listener for Stored was stopped after 0 of 1 events'
+        )
+        expect(listener.isStopped()).is.true
+    })
+
+    it('iterates events until it is stopped', async () => {
+        const listener = await storedListener()
+        const iterated: number[] = []
+        const iteration = (async () => {
+            for await (const value of listener) {
+                iterated.push(value)
+                if (iterated.length === 2) {
+                    listener.stop()
+                }
+            }
+        })()
+        await (await box.store(4)).wait()
+        await (await box.store(5)).wait()
+        await iteration
+        expect(iterated).deep.eq([4, 5])
+    })
+
+    it('stops on a failed conversion', async () => {
+        const listener = new EventListener<number>(box, 'Stored', () => {
+            throw new Error('Unexpected event')
+        })
+        await (await box.store(6)).wait()
+        await expect(listener.waitFor()).is.rejectedWith('Unexpected event')
+        expect(() => listener.events()).throws('Unexpected event')
+        expect(listener.isStopped()).is.true
+    })
+
+    it('invalidates active listeners', async () => {
+        const listener = await storedListener()
+        const pending = listener.waitFor()
+        invalidateEventListeners('the chain was reverted')
+        await expect(pending).is.rejectedWith(
+            'Listener for Stored is invalid: the chain was reverted'
+        )
+    })
+})
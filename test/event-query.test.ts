@@ -0,0 +1,162 @@
+import {expect} from 'chai'
+import {BigNumber, providers, utils} from 'ethers'
+import {Log} from '@ethersproject/abstract-provider'
+import {before, describe, it} from 'mocha'
+import {wrapEventType} from '../tools/event-wrapper'
+import {queryLogsInChunks} from '../tools/event-query'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+interface LogsRequest {
+    fromBlock: number
+    toBlock: number
+}
+
+/*
+ * A provider which fails queries of more than `maxBlocks` blocks with the given error.
+ */
+function limitedProvider(
+    maxBlocks: number,
+    limitError: unknown
+): [providers.Provider, LogsRequest[]] {
+    const requests: LogsRequest[] = []
+    const provider = {
+        getBlockNumber: () => Promise.resolve(99),
+        getLogs: (filter: LogsRequest): Promise<Log[]> => {
+            requests.push({
+                fromBlock: filter.fromBlock,
+                toBlock: filter.toBlock
+            })
+            if (filter.toBlock - filter.fromBlock + 1 > maxBlocks) {
+                return Promise.reject(limitError)
+            }
+            return Promise.resolve([
+                {blockNumber: filter.fromBlock} as unknown as Log
+            ])
+        }
+    }
+    return [provider as unknown as providers.Provider, requests]
+}
+
+async function queryAll(
+    provider: providers.Provider,
+    chunkSize: number
+): Promise<Log[][]> {
+    const chunks: Log[][] = []
+    for await (const logs of queryLogsInChunks(provider, {}, {chunkSize})) {
+        chunks.push(logs)
+    }
+    return chunks
+}
+
+describe('event query', () => {
+    it('splits a chunk when a provider reports a limit', async () => {
+        const [provider, requests] = limitedProvider(
+            20,
+            new Error('query returned more than 10000 results')
+        )
+        const chunks = await queryAll(provider, 40)
+
+        expect(requests[0]).deep.eq({fromBlock: 0, toBlock: 39})
+        expect(requests[1]).deep.eq({fromBlock: 0, toBlock: 19})
+        expect(chunks.map((logs) => logs[0].blockNumber)).deep.eq([
+            0, 20, 40, 60, 80
+        ])
+    })
+
+    it('splits the queried span of a chunk clipped by the last block', async () => {
+        const [provider, requests] = limitedProvider(
+            10,
+            new Error('block range is too wide')
+        )
+        const chunks: Log[][] = []
+        for await (const logs of queryLogsInChunks(
+            provider,
+            {},
+            {fromBlock: 80, toBlock: 99, chunkSize: 1000}
+        )) {
+            chunks.push(logs)
+        }
+
+        expect(requests.slice(0, 2)).deep.eq([
+            {fromBlock: 80, toBlock: 99},
+            {fromBlock: 80, toBlock: 89}
+        ])
+        expect(chunks.map((logs) => logs[0].blockNumber)).deep.eq([80, 90])
+    })
+
+    it('uses a range suggested by a provider', async () => {
+        const [provider, requests] = limitedProvider(10, {
+            error: {
+                message:
+                    'Log response size exceeded. this block range should work: [0x0, 0x9]'
+            }
+        })
+        await queryAll(provider, 100)
+        expect(requests[1]).deep.eq({fromBlock: 0, toBlock: 9})
+    })
+
+    it('surfaces errors which are not limits of a query', async () => {
+        for (const message of [
+            'Too many requests, please slow down',
+            'Rate limit exceeded',
+            'invalid block range params',
+            'internal error'
+        ]) {
+            const [provider, requests] = limitedProvider(10, new Error(message))
+            await expect(queryAll(provider, 100)).is.rejectedWith(message)
+            expect(requests).has.length(1)
+        }
+    })
+
+    describe('of event wrappers', () => {
+        let box: types.Box
+        let fromBlock: number
+
+        before(async () => {
+            box = await new types.Box__factory(deployer).deploy()
+            fromBlock = await deployer.provider.getBlockNumber()
+            for (const value of [1, 2, 3]) {
+                await (await box.store(value)).wait()
+            }
+        })
+
+        it('queries events by chunks of blocks', async () => {
+            const stored = wrapEventType<
+                [string, BigNumber],
+                {by: string; value: BigNumber}
+            >('Stored', box)
+
+            const events = await stored.query({fromBlock, chunkSize: 1})
+            expect(events.map((e) => e.value.toNumber())).deep.eq([1, 2, 3])
+
+            const filtered = await stored.query({
+                fromBlock,
+                filter: {value: 2}
+            })
+            expect(filtered).has.length(1)
+
+            const iterated: number[] = []
+            for await (const event of stored.iterate({fromBlock})) {
+                iterated.push(event.value.toNumber())
+            }
+            expect(iterated).deep.eq([1, 2, 3])
+        })
+
+        it('returns plain values of indexed dynamic arguments', async () => {
+            const blockNumber = await deployer.provider.getBlockNumber()
+            await (await box.label('name', 'text')).wait()
+            const labelled = wrapEventType<
+                [utils.Indexed | string, string],
+                {label: utils.Indexed | string; text: string}
+            >('Labelled', box)
+            const query = {fromBlock: blockNumber, filter: {label: 'name'}}
+
+            const [event] = await labelled.query(query)
+            expect(event.label).eq('name')
+            for await (const iterated of labelled.iterate(query)) {
+                expect(iterated.label).eq('name')
+            }
+        })
+    })
+})
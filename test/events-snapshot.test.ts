@@ -0,0 +1,129 @@
+import {expect} from 'chai'
+import {existsSync, mkdtempSync, readFileSync, rmSync} from 'fs'
+import {after, afterEach, before, describe, it} from 'mocha'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {eventsSnapshotOf, expectEventsSnapshot} from '../tools/events-snapshot'
+import {successfulTransaction} from '../tools/transaction'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('events snapshot', () => {
+    const factories = wrapImportedFactories(types, deployer)
+    const dir = mkdtempSync(join(tmpdir(), 'events-'))
+    let box: types.Box
+    let caller: types.BoxCaller
+
+    before(async () => {
+        box = await factories.deploy('Box', [])
+        caller = await factories.deploy('BoxCaller', [])
+    })
+
+    after(() => rmSync(dir, {recursive: true, force: true}))
+
+    const ci = process.env.CI
+    afterEach(() => {
+        // eslint-disable-next-line no-undefined
+        if (ci === undefined) {
+            delete process.env.CI
+        } else {
+            process.env.CI = ci
+        }
+    })
+
+    it('normalizes events by labels of addresses', async () => {
+        const receipt = await successfulTransaction(
+            caller.storeTo(box.address, 7)
+        )
+        expect(
+            eventsSnapshotOf(receipt, {labels: {[box.address]: 'box'}})
+        ).deep.eq([
+            {
+                emitter: 'box',
+                contract: 'Box',
+                event: 'Stored',
+                args: {by: caller.address, value: '7'}
+            },
+            {
+                emitter: caller.address,
+                contract: 'BoxCaller',
+                event: 'Called',
+                args: {box: 'box', value: '7'}
+            }
+        ])
+        expect(
+            eventsSnapshotOf(receipt, {autoLabels: true}).map((e) => e.args)
+        ).deep.eq([
+            {by: 'BoxCaller#0', value: '7'},
+            {box: 'Box#0', value: '7'}
+        ])
+    })
+
+    it('writes a missing snapshot and compares with it', async () => {
+        delete process.env.CI
+        const options = {dir, autoLabels: true}
+        const written = await expectEventsSnapshot(
+            caller.storeTo(box.address, 8),
+            'storeTo',
+            options
+        )
+        expect(
+            JSON.parse(readFileSync(join(dir, 'storeTo.json'), 'utf8'))
+        ).deep.eq(written)
+
+        await expectEventsSnapshot(
+            caller.storeTo(box.address, 8),
+            'storeTo',
+            options
+        )
+        await expect(
+            expectEventsSnapshot(
+                caller.storeTo(box.address, 9),
+                'storeTo',
+                options
+            )
+        ).is.rejectedWith(
+            [
+                `Events differ from snapshot ${join(
+                    dir,
+                    'storeTo.json'
+                )} (- expected, + actual):`,
+                '  ...',
+                '      "event": "Stored",',
+                '      "args": {',
+                '        "by": "BoxCaller#0",',
+                '-       "value": "8"',
+                '+       "value": "9"'
+            ].join('\n')
+        )
+
+        await expectEventsSnapshot(caller.storeTo(box.address, 9), 'storeTo', {
+            ...options,
+            update: true
+        })
+        await expectEventsSnapshot(
+            caller.storeTo(box.address, 9),
+            'storeTo',
+            options
+        )
+    })
+    it('fails on a missing snapshot on CI unless it is updated', async () => {
+        process.env.CI = 'true'
+        const path = join(dir, 'missing.json')
+        await expect(
+            expectEventsSnapshot(caller.storeTo(box.address, 10), 'missing', {
+                dir
+            })
+        ).is.rejectedWith(
+            `Events snapshot ${path} is missing, it is not written on CI unless updated`
+        )
+        expect(existsSync(path)).is.false
+
+        await expectEventsSnapshot(caller.storeTo(box.address, 10), 'missing', {
+            dir,
+            update: true
+        })
+        expect(existsSync(path)).is.true
+    })
+})
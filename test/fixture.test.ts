@@ -0,0 +1,72 @@
+import {expect} from 'chai'
+import {BigNumber, Event} from 'ethers'
+import {describe, it} from 'mocha'
+import {EventListener} from '../tools/event-listener'
+import {fixture} from '../tools/fixture'
+import {deployer, provider} from './support/chain'
+import * as types from './support/contracts'
+
+describe('fixture', () => {
+    let setups = 0
+    let callerSetups = 0
+
+    const boxFixture = fixture(
+        async () => {
+            setups++
+            const box = await new types.Box__factory(deployer).deploy()
+            await (await box.store(1)).wait()
+            return {box}
+        },
+        {provider}
+    )
+
+    const callerFixture = fixture(
+        async () => {
+            callerSetups++
+            const {box} = await boxFixture()
+            const caller = await new types.BoxCaller__factory(deployer).deploy()
+            return {box, caller}
+        },
+        {provider}
+    )
+
+    it('reverts the chain to the snapshot of the setup', async () => {
+        const {box} = await boxFixture()
+        await (await box.store(2)).wait()
+
+        const again = await boxFixture()
+        expect(again.box).not.eq(box)
+        expect(again.box.address).eq(box.address)
+        expect((await again.box.value()).toNumber()).eq(1)
+        expect(setups).eq(1)
+    })
+
+    it('runs setups of fixtures discarded by a revert again', async () => {
+        const {box, caller} = await callerFixture()
+        expect((await callerFixture()).caller.address).eq(caller.address)
+
+        expect((await boxFixture()).box.address).eq(box.address)
+        expect(await provider.getCode(caller.address)).eq('0x')
+        const recreated = await callerFixture()
+        expect(await provider.getCode(recreated.caller.address)).not.eq('0x')
+        expect(callerSetups).eq(2)
+        expect(setups).eq(1)
+    })
+
+    it('invalidates event listeners which are not stopped', async () => {
+        const {box} = await boxFixture()
+        const listener = new EventListener<number>(
+            box,
+            'Stored',
+            (event: Event) => (event.args?.value as BigNumber).toNumber(),
+            await provider.getBlockNumber()
+        )
+        const pending = listener.waitFor()
+
+        await boxFixture()
+        await expect(pending).is.rejectedWith(
+            'Listener for Stored is invalid: chain state was reverted by a fixture'
+        )
+        listener.stop()
+    })
+})
@@ -0,0 +1,82 @@
+import {expect} from 'chai'
+import {mkdtempSync, rmSync} from 'fs'
+import {after, before, describe, it} from 'mocha'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {GasRecorder} from '../tools/gas-recorder'
+import {observeTransactions, successfulTransaction} from '../tools/transaction'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('gas recorder', () => {
+    const factories = wrapImportedFactories(types, deployer)
+    const dir = mkdtempSync(join(tmpdir(), 'gas-'))
+    let box: types.Box
+
+    before(async () => {
+        box = await factories.deploy('Box', [])
+    })
+
+    after(() => rmSync(dir, {recursive: true, force: true}))
+
+    it('records deployments and calls by methods', async () => {
+        const recorder = new GasRecorder().start()
+        try {
+            await factories.deploy('Box', [])
+            const receipt = await successfulTransaction(box.store(1))
+            await recorder.recordReceipt(receipt)
+            await successfulTransaction(box.store(2))
+        } finally {
+            recorder.stop()
+        }
+        await successfulTransaction(box.store(3))
+
+        const snapshot = recorder.snapshot()
+        expect(Object.keys(snapshot)).deep.eq(['Box.constructor', 'Box.store'])
+        expect(snapshot['Box.store']?.calls).eq(2)
+    })
+
+    it('compares gas with a snapshot', () => {
+        const path = join(dir, 'gas.json')
+        const recorder = new GasRecorder()
+        recorder.record('Box', 'store', 100)
+        recorder.expectWithinSnapshot(path)
+
+        recorder.reset()
+        recorder.record('Box', 'store', 104)
+        recorder.record('Box', 'label', 50)
+        expect(recorder.compareWithSnapshot(path)).deep.eq({
+            regressions: [
+                {key: 'Box.store', baseline: 100, actual: 104, allowed: 0}
+            ],
+            added: ['Box.label']
+        })
+        recorder.expectWithinSnapshot(path, {tolerance: {percent: 5}})
+        expect(() =>
+            recorder.expectWithinSnapshot(path, {
+                methods: {'Box.store': {gas: 3}}
+            })
+        ).throws('Box.store: 104 > 100 (+4, allowed +3)')
+    })
+
+    it('isolates a failed observer', async () => {
+        const errors: unknown[] = []
+        const stopFailed = observeTransactions(
+            () => {
+                throw new Error('observer failed')
+            },
+            (error) => errors.push(error)
+        )
+        const recorder = new GasRecorder().start()
+        try {
+            const receipt = await successfulTransaction(box.store(4))
+            expect(receipt.status).eq(1)
+        } finally {
+            stopFailed()
+            recorder.stop()
+        }
+        expect(errors).has.length(1)
+        expect(recorder.snapshot()['Box.store']?.calls).eq(1)
+    })
+})
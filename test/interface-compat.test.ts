@@ -0,0 +1,81 @@
+import {expect} from 'chai'
+import {utils} from 'ethers'
+import {describe, it} from 'mocha'
+import {
+    compareAbiInterfaces,
+    expectCompatibleInterfaces,
+    formatInterfaceChanges,
+    versionPairsOf
+} from '../tools/interface-compat'
+
+describe('interface compatibility', () => {
+    const boxV1 = new utils.Interface([
+        'event Stored(address indexed by, uint256 value)',
+        'function store(uint256 value)',
+        'function value() view returns (uint256)',
+        'error TooLarge(uint256 value)'
+    ])
+
+    it('reports additions as compatible', () => {
+        const comparison = compareAbiInterfaces(
+            'Box',
+            'BoxV2',
+            boxV1,
+            new utils.Interface([
+                ...boxV1.fragments,
+                'event Labelled(string label)',
+                'function store(uint256 first, uint256 second)',
+                'error TooSmall(uint256 value)'
+            ])
+        )
+        expect(comparison.breaking).is.false
+        expect(comparison.changes.map((change) => change.kind)).deep.eq([
+            'event-added',
+            'function-added',
+            'error-added'
+        ])
+        expect(comparison.changes[1].after).deep.eq([
+            'function store(uint256 first, uint256 second)'
+        ])
+        expectCompatibleInterfaces(comparison)
+    })
+
+    it('reports breaking changes', () => {
+        const comparison = compareAbiInterfaces(
+            'Box',
+            'BoxV2',
+            boxV1,
+            new utils.Interface([
+                'event Stored(address by, uint256 value)',
+                'function store(uint256 value, bool force)',
+                'function value() view returns (int256)'
+            ])
+        )
+        expect(comparison.breaking).is.true
+        expect(formatInterfaceChanges(comparison).split('\n')).deep.eq([
+            '! event-indexed-changed Stored: event Stored(address indexed by, uint256 value) -> event Stored(address by, uint256 value)',
+            '! function-changed store: function store(uint256) -> function store(uint256,bool)',
+            '! function-changed value: function value() view returns (uint256) -> function value() view returns (int256)',
+            '! error-removed TooLarge: error TooLarge(uint256 value)'
+        ])
+        expect(() => expectCompatibleInterfaces(comparison)).throws(
+            /Breaking changes of Box -> BoxV2/
+        )
+    })
+
+    it('pairs consecutive versions', () => {
+        expect(
+            versionPairsOf(['BoxV3', 'Token', 'Box', 'BoxV2', 'TokenV2'])
+        ).deep.eq([
+            ['Box', 'BoxV2'],
+            ['BoxV2', 'BoxV3'],
+            ['Token', 'TokenV2']
+        ])
+    })
+
+    it('rejects versions with the same number', () => {
+        expect(() => versionPairsOf(['Box', 'BoxV1', 'BoxV2'])).throws(
+            'Contract types Box and BoxV1 have the same version 1'
+        )
+    })
+})
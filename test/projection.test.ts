@@ -0,0 +1,73 @@
+import {expect} from 'chai'
+import {BigNumber} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {wrapEventType} from '../tools/event-wrapper'
+import {Projection} from '../tools/projection'
+import {deployer, other, user} from './support/chain'
+import * as types from './support/contracts'
+
+interface Stats {
+    count: number
+    volume: number
+    received: Record<string, number>
+}
+
+describe('projection', () => {
+    let token: types.Token
+    let fromBlock: number
+
+    before(async () => {
+        fromBlock = (await deployer.provider.getBlockNumber()) + 1
+        token = await new types.Token__factory(deployer).deploy(100)
+        const [userAddress, otherAddress] = await Promise.all([
+            user.getAddress(),
+            other.getAddress()
+        ])
+        await (await token.transfer(userAddress, 5)).wait()
+        await (await token.transfer(otherAddress, 7)).wait()
+    })
+
+    function statsOf(): Projection<Stats> {
+        const transfer = wrapEventType<
+            [string, string, BigNumber],
+            {from: string; to: string; value: BigNumber}
+        >('Transfer', token)
+        return new Projection<Stats>({count: 0, volume: 0, received: {}})
+            .on(transfer, (state) => {
+                state.count += 1
+            })
+            .on(transfer, (state, event) => {
+                state.volume += event.value.toNumber()
+                state.received[event.to] =
+                    (state.received[event.to] ?? 0) + event.value.toNumber()
+            })
+    }
+
+    it('applies every log of a receipt once', async () => {
+        const projection = statsOf()
+        const receipt = await (await token.transfer(token.address, 1)).wait()
+
+        projection.applyReceipt(receipt)
+        projection.applyReceipt(receipt)
+        projection.apply([...receipt.logs, ...receipt.logs])
+        expect(projection.state.count).eq(1)
+        expect(projection.state.volume).eq(1)
+    })
+
+    it('applies a log once when reducers share its event', async () => {
+        const projection = statsOf()
+        const state = await projection.applyQuery(deployer.provider, {
+            fromBlock,
+            toBlock: fromBlock + 2
+        })
+        expect(state.count).eq(3)
+        expect(state.volume).eq(112)
+        expect(state.received[await user.getAddress()]).eq(5)
+
+        await projection.applyQuery(deployer.provider, {
+            fromBlock,
+            toBlock: fromBlock + 2
+        })
+        expect(projection.state.count).eq(3)
+    })
+})
@@ -0,0 +1,87 @@
+import {expect} from 'chai'
+import {constants} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {
+    adminOf,
+    beaconOf,
+    expectUpgraded,
+    implementationOf,
+    isDeployedBytecodeOf
+} from '../tools/proxy'
+import {deployer, provider} from './support/chain'
+import * as types from './support/contracts'
+
+describe('proxy', () => {
+    const factories = wrapImportedFactories(types, deployer)
+    let box: types.Box
+    let proxy: types.Proxy1967
+
+    before(async () => {
+        box = await new types.Box__factory(deployer).deploy()
+        proxy = await new types.Proxy1967__factory(deployer).deploy(box.address)
+    })
+
+    it('reads EIP-1967 slots of a proxy', async () => {
+        expect(await implementationOf(provider, proxy.address)).eq(box.address)
+        expect(await adminOf(provider, proxy.address)).eq(constants.AddressZero)
+        expect(await beaconOf(provider, proxy.address)).eq(
+            constants.AddressZero
+        )
+        expect(await implementationOf(provider, box.address)).eq(
+            constants.AddressZero
+        )
+    })
+
+    it('checks runtime code against creation bytecode', async () => {
+        const code = await provider.getCode(box.address)
+        expect(isDeployedBytecodeOf(types.Box__factory.bytecode, code)).is.true
+        expect(isDeployedBytecodeOf(types.BoxCaller__factory.bytecode, code)).is
+            .false
+        expect(isDeployedBytecodeOf(types.Box__factory.bytecode, '0x')).is.false
+    })
+
+    it('expects an upgrade of a proxy', async () => {
+        const upgradeable = await new types.Proxy1967__factory(deployer).deploy(
+            box.address
+        )
+        const caller = await new types.BoxCaller__factory(deployer).deploy()
+        const tx = upgradeable.upgradeTo(caller.address)
+
+        expect(
+            await expectUpgraded(tx, upgradeable.address, caller.address)
+        ).eq(caller.address)
+        await expect(
+            expectUpgraded(
+                upgradeable.upgradeTo(box.address),
+                upgradeable.address,
+                caller.address
+            )
+        ).is.rejectedWith(
+            `Proxy ${upgradeable.address} was upgraded to another implementation`
+        )
+        await expect(
+            expectUpgraded(box.store(1), upgradeable.address)
+        ).is.rejectedWith(
+            `Proxy ${upgradeable.address} has not emitted Upgraded`
+        )
+    })
+
+    it('attaches a contract by a proxy of its implementation', async () => {
+        const value = await box.value()
+        const attached = await factories.attachProxy('Box', proxy.address)
+        expect(attached.address).eq(proxy.address)
+        await (await attached.store(7)).wait()
+        expect((await attached.value()).toNumber()).eq(7)
+        expect(await box.value()).deep.eq(value)
+
+        await expect(
+            factories.attachProxy('BoxCaller', proxy.address)
+        ).is.rejectedWith(
+            `Implementation ${box.address} of proxy ${proxy.address} is not BoxCaller`
+        )
+        await expect(factories.attachProxy('Box', box.address)).is.rejectedWith(
+            `Proxy ${box.address} has no EIP-1967 implementation`
+        )
+    })
+})
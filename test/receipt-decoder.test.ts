@@ -0,0 +1,59 @@
+import {expect} from 'chai'
+import {before, describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {decodeLogs, formatLogEntries} from '../tools/receipt-decoder'
+import {successfulTransaction} from '../tools/transaction'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('receipt decoder', () => {
+    const factories = wrapImportedFactories(types, deployer)
+    let box: types.Box
+    let caller: types.BoxCaller
+
+    before(async () => {
+        box = await new types.Box__factory(deployer).deploy()
+        caller = await factories.deploy('BoxCaller', [])
+    })
+
+    it('decodes logs of a receipt by all imported types', async () => {
+        const receipt = await successfulTransaction(
+            caller.storeTo(box.address, 7)
+        )
+        const entries = factories.decodeReceipt(receipt)
+        expect(entries.map((e) => e.decoded && e.contractName)).deep.eq([
+            'Box',
+            'BoxCaller'
+        ])
+        expect(formatLogEntries(entries).split('\n')).deep.eq([
+            `#0 Box(${box.address}).Stored(by=${caller.address}, value=7)`,
+            `#1 BoxCaller(${caller.address}).Called(box=${box.address}, value=7)`
+        ])
+    })
+
+    it('prefers a contract type of a known emitter', async () => {
+        const receipt = await successfulTransaction(box.store(8))
+        const [entry] = factories.decodeReceipt(receipt, {
+            [box.address]: 'Box'
+        })
+        expect(entry.decoded && entry.candidates).deep.eq(['Box'])
+    })
+
+    it('flags logs of unknown events', async () => {
+        const receipt = await successfulTransaction(
+            caller.storeTo(box.address, 9)
+        )
+        const entries = decodeLogs(
+            receipt.logs,
+            new Map([
+                ['BoxCaller', types.BoxCaller__factory.createInterface()]
+            ]),
+            // eslint-disable-next-line no-undefined
+            () => undefined
+        )
+        expect(entries.map((e) => e.decoded)).deep.eq([false, true])
+        expect(formatLogEntries(entries)).match(
+            new RegExp(`^#0 ${box.address} unknown event 0x[0-9a-f]{64}\n`)
+        )
+    })
+})
@@ -0,0 +1,186 @@
+import {expect} from 'chai'
+import {
+    BaseContract,
+    BigNumber,
+    BigNumberish,
+    Contract,
+    ContractTransaction,
+    Signer,
+    utils
+} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {wrapErrorType} from '../tools/error-wrapper'
+import {
+    decodeRevertData,
+    formatRevert,
+    revertDataOf,
+    revertOutcomeOf,
+    revertSelectorOf
+} from '../tools/revert'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+/*
+ * ABI of a typechain factory is `as const`, so names and args of errors are typed
+ */
+const constBoxAbi = [
+    {
+        type: 'error',
+        name: 'TooLarge',
+        inputs: [
+            {name: 'value', type: 'uint256'},
+            {name: 'max', type: 'uint256'}
+        ]
+    },
+    {
+        type: 'function',
+        name: 'store',
+        stateMutability: 'nonpayable',
+        inputs: [{name: 'newValue', type: 'uint256'}],
+        outputs: []
+    }
+] as const
+
+interface ConstBox extends BaseContract {
+    store(newValue: BigNumberish): Promise<ContractTransaction>
+}
+
+class ConstBoxFactory {
+    static readonly abi = constBoxAbi
+
+    static createInterface(): utils.Interface {
+        return new utils.Interface(constBoxAbi)
+    }
+
+    static connect(address: string, signer: Signer): ConstBox {
+        return new Contract(address, constBoxAbi, signer) as unknown as ConstBox
+    }
+}
+
+describe('revert', () => {
+    const decoder = types.Box__factory.createInterface()
+    let box: types.Box
+
+    before(async () => {
+        box = await new types.Box__factory(deployer).deploy()
+    })
+
+    it('decodes builtin and custom errors', () => {
+        const error = decodeRevertData(
+            decoder.encodeErrorResult('TooLarge', [1001, 1000]),
+            decoder
+        )
+        expect(error?.name).eq('TooLarge')
+        expect(formatRevert(error)).eq('TooLarge(value=1001, max=1000)')
+
+        const panic = decodeRevertData(
+            utils.hexConcat([
+                revertSelectorOf('Panic', decoder),
+                utils.defaultAbiCoder.encode(['uint256'], [0x12])
+            ])
+        )
+        expect(formatRevert(panic)).eq(
+            'Panic(0x12): division or modulo by zero'
+        )
+        expect(decodeRevertData('0x12345678', decoder)).is.undefined
+    })
+
+    it('finds revert data nested by providers', () => {
+        const data = decoder.encodeErrorResult('TooLarge', [1, 0])
+        expect(revertDataOf({error: {error: {data}}})).eq(data)
+        expect(revertDataOf({body: JSON.stringify({error: {data}})})).eq(data)
+        expect(revertDataOf(new Error('no data'))).is.undefined
+    })
+
+    it('prefers revert data of the node over empty data of ethers', () => {
+        const data = decoder.encodeErrorResult('TooLarge', [1, 0])
+        expect(revertDataOf({data: '0x', error: {data}})).eq(data)
+        expect(revertDataOf({error: {data: {result: data}}})).eq(data)
+        expect(revertDataOf({data: '0x'})).eq('0x')
+    })
+
+    it('detects a reverted call and a successful transaction', async () => {
+        const reverted = await revertOutcomeOf(box.store(1001), box.provider)
+        expect(reverted.reverted).is.true
+        expect(decodeRevertData(reverted.data, decoder)?.name).eq('TooLarge')
+
+        const succeeded = await revertOutcomeOf(box.store(1), box.provider)
+        expect(succeeded.reverted).is.false
+    })
+
+    it('rethrows errors which are not reverts', async () => {
+        const insufficientFunds = Object.assign(
+            new Error('insufficient funds for gas * price + value'),
+            {code: utils.Logger.errors.INSUFFICIENT_FUNDS}
+        )
+        await expect(
+            revertOutcomeOf(Promise.reject(insufficientFunds), box.provider)
+        ).is.rejectedWith('insufficient funds')
+        await expect(
+            revertOutcomeOf(Promise.reject(new Error('network is down')))
+        ).is.rejectedWith('network is down')
+
+        const callException = {code: utils.Logger.errors.CALL_EXCEPTION}
+        const outcome = await revertOutcomeOf(Promise.reject(callException))
+        expect(outcome.reverted).is.true
+        expect(outcome.error).eq(callException)
+    })
+
+    it('replays a mined failed transaction for revert data', async () => {
+        const outcome = await revertOutcomeOf(
+            box.store(2000, {gasLimit: 100000}),
+            box.provider
+        )
+        expect(outcome.reverted).is.true
+        expect(decodeRevertData(outcome.data, decoder)?.name).eq('TooLarge')
+    })
+
+    it('expects a typed custom error', async () => {
+        const tooLarge = wrapErrorType<
+            [BigNumber, BigNumber],
+            {value: BigNumber; max: BigNumber}
+        >('TooLarge', box)
+        const args = await tooLarge.expectRevert(box.store(1500), [1500])
+        expect(args.max.toNumber()).eq(1000)
+
+        await expect(tooLarge.expectRevert(box.store(5))).is.rejectedWith(
+            'Expected revert with TooLarge, but it has succeeded'
+        )
+        await expect(tooLarge.expectRevert(box.fail('nope'))).is.rejectedWith(
+            'but got Error(reason=nope)'
+        )
+    })
+
+    it('expects builtin errors by names', async () => {
+        const panic = wrapErrorType<[number], {code: number}>('Panic', box)
+        await panic.expectRevert(box.divide(1, 0), {code: 0x12})
+
+        const error = wrapErrorType<[string], {reason: string}>('Error', box)
+        await error.expectRevert(box.fail('broken'), ['broken'])
+    })
+
+    it('types errors of a const ABI by names', async () => {
+        const factories = wrapImportedFactories(
+            // eslint-disable-next-line camelcase
+            {ConstBox__factory: ConstBoxFactory},
+            deployer
+        )
+        const constBox = factories.attach('ConstBox', box.address)
+
+        const {value, max} = await factories
+            .errorOf(constBox, 'TooLarge')
+            .expectRevert(constBox.store(1001), {value: 1001})
+        const args: [BigNumber, BigNumber] = [value, max]
+        expect(args.map((v) => v.toNumber())).deep.eq([1001, 1000])
+
+        // @ts-expect-error the error is not declared by the ABI
+        factories.errorOf(constBox, 'Missing')
+        const {code} = await factories
+            .errorOf(box, 'Panic')
+            .expectRevert(box.divide(1, 0))
+        // @ts-expect-error a code of a panic is a BigNumber
+        const text: string = code
+        expect(BigNumber.from(text).toNumber()).eq(0x12)
+    })
+})
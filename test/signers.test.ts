@@ -0,0 +1,53 @@
+import {expect} from 'chai'
+import {Signer} from 'ethers'
+import {describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {LazySigner, SignerPool} from '../tools/signers'
+import {deployer, provider, user} from './support/chain'
+import * as types from './support/contracts'
+
+describe('signers', () => {
+    it('delegates to a resolved signer without a provider', async () => {
+        const lazy = new LazySigner(() => user)
+        expect(lazy.provider).is.undefined
+        expect(await lazy.getAddress()).eq(await user.getAddress())
+        expect((await lazy.getGasPrice()).gt(0)).is.true
+        expect((await lazy.getFeeData()).gasPrice?.gt(0)).is.true
+        expect(await lazy.resolveName(await user.getAddress())).eq(
+            await user.getAddress()
+        )
+    })
+
+    it('provides signers of a pool by roles', async () => {
+        const pool = new SignerPool(provider, {admin: 0, user: user})
+        expect(pool.signer('admin')).eq(pool.signer('admin'))
+        expect(pool.signer('admin').provider).eq(provider)
+        expect(await pool.getAddress('admin')).eq(await deployer.getAddress())
+        expect(await pool.getAddress('user')).eq(await user.getAddress())
+        expect(() => pool.signer('other' as 'user')).throws(
+            'Unknown signer role: other'
+        )
+    })
+
+    it('attaches a contract before a promise of a signer is resolved', async () => {
+        const box = await new types.Box__factory(deployer).deploy()
+        await (await box.store(5)).wait()
+
+        let resolveSigner: (signer: Signer) => void
+        const factories = wrapImportedFactories(
+            types,
+            new Promise<Signer>((resolve) => {
+                resolveSigner = resolve
+            }),
+            {provider}
+        )
+        const attached = factories.attach('Box', box.address)
+        expect(attached.provider).eq(provider)
+        const stored = await attached.queryFilter(attached.filters.Stored())
+        expect(stored).has.length(1)
+
+        resolveSigner(user)
+        const receipt = await (await attached.store(6)).wait()
+        expect(receipt.from).eq(await user.getAddress())
+    })
+})
@@ -0,0 +1,19 @@
+import {providers} from 'ethers'
+import ganache from 'ganache'
+
+/*
+ * A single in-process chain is shared by all tests, chainId is the one of hardhat,
+ * so the chain is treated as a local dev node.
+ */
+export const provider = new providers.Web3Provider(
+    ganache.provider({
+        chain: {chainId: 31337},
+        logging: {quiet: true},
+        wallet: {totalAccounts: 5}
+    }) as unknown as providers.ExternalProvider
+)
+provider.pollingInterval = 10
+
+export const deployer = provider.getSigner(0)
+export const user = provider.getSigner(1)
+export const other = provider.getSigner(2)
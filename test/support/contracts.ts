@@ -0,0 +1,257 @@
+/* eslint-disable camelcase */
+// factories are named as the ones of typechain
+
+import {
+    BaseContract,
+    BigNumber,
+    BigNumberish,
+    Contract,
+    ContractFactory,
+    ContractTransaction,
+    Overrides,
+    PayableOverrides,
+    providers,
+    Signer,
+    utils
+} from 'ethers'
+import {readdirSync, readFileSync} from 'fs'
+import {join} from 'path'
+import {compile} from 'solc'
+
+/*
+ * Contracts of tests are compiled once per run, and their types and factories mimic
+ * ones generated by typechain: static `abi`, `createInterface()`, `connect()`
+ * and `linkBytecode()` for contracts with external libraries.
+ */
+
+type Tx = Promise<ContractTransaction>
+
+export interface Box extends BaseContract {
+    MAX(): Promise<BigNumber>
+    value(): Promise<BigNumber>
+    store(newValue: BigNumberish, overrides?: Overrides): Tx
+    storeTwice(
+        first: BigNumberish,
+        second: BigNumberish,
+        overrides?: Overrides
+    ): Tx
+    label(name: string, text: string, overrides?: Overrides): Tx
+    fail(reason: string): Promise<void>
+    divide(a: BigNumberish, b: BigNumberish): Promise<BigNumber>
+}
+
+export interface BoxCaller extends BaseContract {
+    storeTo(box: string, newValue: BigNumberish, overrides?: Overrides): Tx
+}
+
+export interface Token extends BaseContract {
+    balanceOf(account: string): Promise<BigNumber>
+    transfer(to: string, amount: BigNumberish, overrides?: Overrides): Tx
+}
+
+export interface Vault extends BaseContract {
+    owner(): Promise<string>
+}
+
+export interface MathLib extends BaseContract {
+    triple(value: BigNumberish): Promise<BigNumber>
+}
+
+export interface Calculator extends BaseContract {
+    triple(value: BigNumberish): Promise<BigNumber>
+}
+
+export interface Proxy1967 extends BaseContract {
+    upgradeTo(implementation: string, overrides?: Overrides): Tx
+}
+
+export interface CalculatorLibraryAddresses {
+    ['contracts/Token.sol:MathLib']: string
+}
+
+interface CompiledContract {
+    abi: utils.Fragment[]
+    bytecode: string
+    linkReferences: Record<string, Record<string, unknown[]>>
+}
+
+interface CompilerOutput {
+    errors?: {severity: string; formattedMessage: string}[]
+    contracts: Record<
+        string,
+        Record<
+            string,
+            {
+                abi: utils.Fragment[]
+                evm: {
+                    bytecode: {
+                        object: string
+                        linkReferences: CompiledContract['linkReferences']
+                    }
+                }
+            }
+        >
+    >
+}
+
+const CONTRACTS_DIR = join(__dirname, '..', 'contracts')
+
+const compiled = ((): Record<string, CompiledContract> => {
+    const sources: Record<string, {content: string}> = {}
+    for (const file of readdirSync(CONTRACTS_DIR)) {
+        if (file.endsWith('.sol')) {
+            sources[`contracts/${file}`] = {
+                content: readFileSync(join(CONTRACTS_DIR, file), 'utf8')
+            }
+        }
+    }
+    const output = JSON.parse(
+        compile(
+            JSON.stringify({
+                language: 'Solidity',
+                sources,
+                settings: {
+                    outputSelection: {
+                        '*': {'*': ['abi', 'evm.bytecode']}
+                    }
+                }
+            })
+        )
+    ) as CompilerOutput
+    const errors = (output.errors ?? []).filter((e) => e.severity === 'error')
+    if (errors.length > 0) {
+        throw new Error(errors.map((e) => e.formattedMessage).join('\n'))
+    }
+
+    const result: Record<string, CompiledContract> = {}
+    for (const contracts of Object.values(output.contracts)) {
+        for (const [name, contract] of Object.entries(contracts)) {
+            result[name] = {
+                abi: contract.abi,
+                bytecode: `0x${contract.evm.bytecode.object}`,
+                linkReferences: contract.evm.bytecode.linkReferences
+            }
+        }
+    }
+    return result
+})()
+
+function _contractOf(name: string): CompiledContract {
+    const contract = compiled[name]
+    if (!contract) {
+        throw new Error(`Test contract ${name} is not compiled`)
+    }
+    return contract
+}
+
+function factoryOf<C extends BaseContract, D extends unknown[]>(name: string) {
+    const {abi, bytecode} = _contractOf(name)
+    return class extends ContractFactory {
+        static readonly abi = abi
+        static readonly bytecode = bytecode
+
+        constructor(signer?: Signer) {
+            super(abi, bytecode, signer)
+        }
+
+        deploy(...args: D): Promise<C> {
+            return super.deploy(...args) as Promise<C>
+        }
+
+        attach(address: string): C {
+            return super.attach(address) as unknown as C
+        }
+
+        static createInterface(): utils.Interface {
+            return new utils.Interface(abi)
+        }
+
+        static connect(
+            address: string,
+            signerOrProvider: Signer | providers.Provider
+        ): C {
+            return new Contract(address, abi, signerOrProvider) as unknown as C
+        }
+    }
+}
+
+function linkedFactoryOf<
+    C extends BaseContract,
+    D extends unknown[],
+    L extends object
+>(name: string) {
+    const {abi, bytecode, linkReferences} = _contractOf(name)
+    const libraries = Object.entries(linkReferences).flatMap(([file, names]) =>
+        Object.keys(names).map((library) => `${file}:${library}`)
+    )
+    const linkBytecode = (addresses: L): string =>
+        libraries.reduce(
+            (linked, library) =>
+                linked.replace(
+                    new RegExp(
+                        `__\\$${utils.id(library).slice(2, 36)}\\$__`,
+                        'g'
+                    ),
+                    (addresses as Record<string, string>)[library]
+                        .replace(/^0x/, '')
+                        .toLowerCase()
+                ),
+            bytecode
+        )
+
+    return class extends ContractFactory {
+        static readonly abi = abi
+
+        constructor(addresses: L, signer?: Signer) {
+            super(abi, linkBytecode(addresses), signer)
+        }
+
+        deploy(...args: D): Promise<C> {
+            return super.deploy(...args) as Promise<C>
+        }
+
+        attach(address: string): C {
+            return super.attach(address) as unknown as C
+        }
+
+        static linkBytecode(addresses: L): string {
+            return linkBytecode(addresses)
+        }
+
+        static createInterface(): utils.Interface {
+            return new utils.Interface(abi)
+        }
+
+        static connect(
+            address: string,
+            signerOrProvider: Signer | providers.Provider
+        ): C {
+            return new Contract(address, abi, signerOrProvider) as unknown as C
+        }
+    }
+}
+
+export const Box__factory = factoryOf<Box, [overrides?: Overrides]>('Box')
+export const BoxCaller__factory = factoryOf<BoxCaller, [overrides?: Overrides]>(
+    'BoxCaller'
+)
+export const Token__factory = factoryOf<
+    Token,
+    [supply: BigNumberish, overrides?: Overrides]
+>('Token')
+export const Vault__factory = factoryOf<
+    Vault,
+    [initialOwner: string, overrides?: PayableOverrides]
+>('Vault')
+export const MathLib__factory = factoryOf<MathLib, [overrides?: Overrides]>(
+    'MathLib'
+)
+export const Calculator__factory = linkedFactoryOf<
+    Calculator,
+    [overrides?: Overrides],
+    CalculatorLibraryAddresses
+>('Calculator')
+export const Proxy1967__factory = factoryOf<
+    Proxy1967,
+    [implementation: string, overrides?: Overrides]
+>('Proxy1967')
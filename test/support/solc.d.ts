@@ -0,0 +1,4 @@
+declare module 'solc' {
+    /* compiles by Standard JSON, both input and output are JSON strings */
+    export function compile(input: string): string
+}
@@ -0,0 +1,71 @@
+import {expect} from 'chai'
+import {describe, it} from 'mocha'
+import {
+    advanceToTimestamp,
+    increaseTime,
+    latestBlockTimestamp,
+    mine,
+    occurrenceAtMost,
+    occurrenceAtMostOnChain
+} from '../tools/time'
+import {provider} from './support/chain'
+
+describe('time', () => {
+    it('mines blocks one by one without hardhat_mine', async () => {
+        const blockNumber = await provider.getBlockNumber()
+        await mine(provider, 3)
+        expect(await provider.getBlockNumber()).eq(blockNumber + 3)
+    })
+
+    it('moves chain time forward', async () => {
+        const before = await latestBlockTimestamp(provider)
+        await increaseTime(provider, 3600)
+        expect(await latestBlockTimestamp(provider)).gte(before + 3600)
+    })
+
+    it('rejects a timestamp which is not later than the latest block', async () => {
+        const latest = await latestBlockTimestamp(provider)
+        await expect(advanceToTimestamp(provider, latest)).is.rejectedWith(
+            `Timestamp ${latest} is not later than the latest block at ${latest}`
+        )
+    })
+
+    it('awaits an occurrence for at most the given time', async () => {
+        const started = Date.now()
+        await occurrenceAtMost(() => false, 200)
+        expect(Date.now() - started).gte(200)
+
+        let calls = 0
+        await occurrenceAtMost(() => ++calls > 1, 10000)
+        expect(calls).eq(2)
+    })
+
+    it('awaits an occurrence for at most the given blocks', async () => {
+        const blockNumber = await provider.getBlockNumber()
+        const wait = {done: false}
+        const waited = occurrenceAtMostOnChain(() => false, provider, {
+            blocks: 2,
+            maximumDelayMs: 10000
+        }).then(() => (wait.done = true))
+        // the wait may start after some of the blocks are mined
+        for (let i = 0; i < 4 && !wait.done; i++) {
+            await mine(provider)
+        }
+        await waited
+        expect(await provider.getBlockNumber()).gte(blockNumber + 2)
+
+        await expect(
+            occurrenceAtMostOnChain(() => false, provider, {})
+        ).is.rejectedWith('Chain deadline needs blocks or timestamp')
+    })
+    it('awaits blocks for at most the given time', async () => {
+        const blockNumber = await provider.getBlockNumber()
+        const started = Date.now()
+        await occurrenceAtMostOnChain(() => false, provider, {
+            blocks: 1,
+            maximumDelayMs: 200
+        })
+        expect(Date.now() - started).gte(200)
+        expect(await provider.getBlockNumber()).eq(blockNumber)
+    })
+})
@@ -0,0 +1,118 @@
+import {expect} from 'chai'
+import {BigNumber} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {CallTracerFrame, decodeCallFrame, formatTrace} from '../tools/trace'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+/*
+ * ganache has no `callTracer`, so frames are made of calls of known contracts
+ */
+describe('trace', () => {
+    const factories = wrapImportedFactories(types, deployer)
+    const boxInterface = types.Box__factory.createInterface()
+    const callerInterface = types.BoxCaller__factory.createInterface()
+    let box: types.Box
+    let caller: types.BoxCaller
+    let from: string
+
+    before(async () => {
+        box = await factories.deploy('Box', [])
+        caller = await factories.deploy('BoxCaller', [])
+        from = await deployer.getAddress()
+    })
+
+    function storeFrame(value: number): CallTracerFrame {
+        return {
+            type: 'CALL',
+            from: caller.address,
+            to: box.address,
+            gasUsed: '0x5208',
+            input: boxInterface.encodeFunctionData('store', [value]),
+            output: '0x',
+            logs: [
+                boxInterface.encodeEventLog(boxInterface.getEvent('Stored'), [
+                    caller.address,
+                    value
+                ])
+            ].map((log) => ({...log, address: box.address}))
+        }
+    }
+
+    it('decodes nested calls and their events', () => {
+        const call = decodeCallFrame({
+            type: 'CALL',
+            from,
+            to: caller.address,
+            value: '0x0',
+            gasUsed: '0x7530',
+            input: callerInterface.encodeFunctionData('storeTo', [
+                box.address,
+                7
+            ]),
+            calls: [storeFrame(7)]
+        })
+
+        expect(call.contractName).eq('BoxCaller')
+        expect(call.method).eq('storeTo')
+        expect(call.gasUsed.toNumber()).eq(30000)
+        const [nested] = call.calls
+        expect(nested.depth).eq(1)
+        expect(nested.contractName).eq('Box')
+        expect(nested.args?.newValue).deep.eq(BigNumber.from(7))
+        expect(nested.events.map((e) => e.decoded && e.eventName)).deep.eq([
+            'Stored'
+        ])
+        expect(formatTrace(call).split('\n')).deep.eq([
+            `CALL BoxCaller(${caller.address}).storeTo(box=${box.address}, newValue=7) => () [gas 30000]`,
+            `    CALL Box(${box.address}).store(newValue=7) => () [gas 21000]`,
+            `        emit #0 Box(${box.address}).Stored(by=${caller.address}, value=7)`
+        ])
+    })
+
+    it('decodes return values and reverts of calls', () => {
+        const divided = decodeCallFrame({
+            type: 'STATICCALL',
+            from,
+            to: box.address,
+            input: boxInterface.encodeFunctionData('divide', [6, 3]),
+            output: boxInterface.encodeFunctionResult('divide', [2])
+        })
+        expect(divided.result?.[0]).deep.eq(BigNumber.from(2))
+
+        const failed = decodeCallFrame({
+            type: 'CALL',
+            from,
+            to: box.address,
+            input: boxInterface.encodeFunctionData('store', [2000]),
+            output: boxInterface.encodeErrorResult('TooLarge', [2000, 1000]),
+            error: 'execution reverted'
+        })
+        expect(failed.revert?.name).eq('TooLarge')
+        expect(failed.result).is.undefined
+        expect(formatTrace(failed)).eq(
+            `CALL Box(${box.address}).store(newValue=2000) [gas 0] failed: TooLarge(value=2000, max=1000)`
+        )
+    })
+
+    it('keeps selectors of unknown functions and names creations', () => {
+        const unknown = decodeCallFrame({
+            type: 'CALL',
+            from,
+            to: from,
+            input: '0x12345678'
+        })
+        expect(unknown.contractName).is.undefined
+        expect(unknown.method).eq('0x12345678')
+
+        const creation = decodeCallFrame({
+            type: 'CREATE2',
+            from,
+            to: box.address,
+            input: types.Box__factory.bytecode
+        })
+        expect(creation.method).eq('constructor')
+        expect(creation.args).is.undefined
+    })
+})
@@ -0,0 +1,73 @@
+import {expect} from 'chai'
+import {before, describe, it} from 'mocha'
+import {wrapImportedFactories} from '../tools/contract-wrappers'
+import {
+    successfulTransaction,
+    TransactionFailure,
+    TransactionFailureDetails
+} from '../tools/transaction'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('transaction', () => {
+    const factories = wrapImportedFactories(types, deployer)
+    let box: types.Box
+
+    before(async () => {
+        box = await factories.deploy('Box', [])
+    })
+
+    async function failureOf(
+        source: Parameters<typeof successfulTransaction>[0]
+    ): Promise<TransactionFailureDetails> {
+        try {
+            await successfulTransaction(source)
+        } catch (error: unknown) {
+            expect(error).instanceOf(TransactionFailure)
+            return (error as TransactionFailure).details
+        }
+        return expect.fail('Transaction has succeeded')
+    }
+
+    it('returns a receipt of a successful transaction', async () => {
+        const receipt = await successfulTransaction(box.store(7))
+        expect(receipt.status).eq(1)
+    })
+
+    it('decodes the call and the revert of a mined transaction', async () => {
+        const details = await failureOf(box.store(1001, {gasLimit: 100000}))
+        expect(details.kind).eq('revert')
+        expect(details.contractNames).deep.eq(['Box'])
+        expect(details.method).eq('store')
+        expect(details.revert?.name).eq('TooLarge')
+        expect(details.receipt?.status).eq(0)
+    })
+
+    it('decodes a revert of a transaction rejected by the node', async () => {
+        const details = await failureOf(box.store(3000))
+        expect(details.kind).eq('revert')
+        expect(details.transactionHash).is.undefined
+        expect(details.revert?.name).eq('TooLarge')
+    })
+
+    it('detects out of gas', async () => {
+        const details = await failureOf(box.store(5, {gasLimit: 25000}))
+        expect(details.kind).eq('out-of-gas')
+    })
+
+    it('formats the failure', async () => {
+        try {
+            await successfulTransaction(box.store(2000, {gasLimit: 100000}))
+        } catch (error: unknown) {
+            const lines = (error as Error).message.split('\n')
+            expect(lines[0]).match(
+                /was reverted: TooLarge\(value=2000, max=1000\)$/
+            )
+            expect(lines[1]).eq(`    target: Box at ${box.address}`)
+            expect(lines[2]).eq('    method: store')
+            expect(lines[3]).eq('    args: newValue=2000')
+            return
+        }
+        expect.fail('Transaction has succeeded')
+    })
+})
@@ -0,0 +1,95 @@
+import {expect} from 'chai'
+import {BigNumber, utils} from 'ethers'
+import {before, describe, it} from 'mocha'
+import {wrapEventType} from '../tools/event-wrapper'
+import {
+    anyValue,
+    between,
+    describeValue,
+    gt,
+    gte,
+    lt,
+    lte,
+    matchValue,
+    oneOf,
+    where
+} from '../tools/value-matchers'
+import {deployer} from './support/chain'
+import * as types from './support/contracts'
+
+describe('value matchers', () => {
+    const uint = utils.ParamType.from('uint256')
+    const address = utils.ParamType.from('address')
+
+    it('matches values by ABI types', () => {
+        expect(matchValue('10', BigNumber.from(10), uint)).is.true
+        expect(matchValue(10n, BigNumber.from(10), uint)).is.true
+        expect(matchValue(11, BigNumber.from(10), uint)).is.false
+
+        const owner = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+        expect(matchValue(owner.toLowerCase(), owner, address)).is.true
+
+        const pair = utils.ParamType.from('tuple(uint256 id, address owner)')
+        expect(matchValue({id: 1}, [BigNumber.from(1), owner], pair)).is.true
+        expect(matchValue({id: 2}, [BigNumber.from(1), owner], pair)).is.false
+
+        const list = utils.ParamType.from('uint256[]')
+        const values = [BigNumber.from(1), BigNumber.from(2)]
+        expect(matchValue([1, 2], values, list)).is.true
+        expect(matchValue([1], values, list)).is.false
+    })
+
+    it('matches values by matchers', () => {
+        const ten = BigNumber.from(10)
+        expect(matchValue(anyValue(), ten)).is.true
+        expect(
+            [gt(9), gte(10), lt(11), lte(10), between(10, 10n)].map((matcher) =>
+                matchValue(matcher, ten, uint)
+            )
+        ).deep.eq([true, true, true, true, true])
+        expect(matchValue(gt(10), ten, uint)).is.false
+        expect(matchValue(oneOf([1, gt(5)]), ten, uint)).is.true
+        expect(
+            matchValue(
+                where((v: BigNumber) => v.isZero()),
+                ten
+            )
+        ).is.false
+    })
+
+    it('describes values and matchers', () => {
+        expect(describeValue(BigNumber.from(5))).eq('5 (BigNumber)')
+        expect(describeValue('text')).eq('"text"')
+        expect(describeValue(oneOf([1, 'a']))).eq('oneOf([1 (number), "a"])')
+        expect(describeValue(between(1, 2n))).eq('between(1, 2)')
+        expect(describeValue(where(Boolean, 'truthy'))).eq('where(truthy)')
+    })
+
+    describe('of events', () => {
+        let box: types.Box
+
+        before(async () => {
+            box = await new types.Box__factory(deployer).deploy()
+        })
+
+        it('matches event arguments by matchers', async () => {
+            const receipt = await (await box.storeTwice(3, 30)).wait()
+            const stored = wrapEventType<
+                [string, BigNumber],
+                {by: string; value: BigNumber}
+            >('Stored', box)
+
+            const [event] = stored.expectOrdered(receipt, [
+                {by: anyValue(), value: gt(10)}
+            ])
+            expect(event.value.toNumber()).eq(30)
+            stored.expectOrdered(receipt, [
+                [null, lt(10)],
+                [null, gt(10)]
+            ])
+            expect(() =>
+                stored.expectOrdered(receipt, [{value: between(4, 29)}])
+            ).throws('value: expected between(4, 29), actual 3 (BigNumber)')
+        })
+    })
+})
@@ -0,0 +1,120 @@
+import {BigNumber} from 'ethers'
+
+/*
+ * Compile-time mapping of `as const` ABI definitions (as emitted by typechain
+ * into `*__factory.abi`) into decoded value types of ethers.
+ * When an ABI is not a literal type, all names degrade to `string`.
+ */
+
+export interface AbiParam {
+    readonly name: string
+    readonly type: string
+    readonly indexed?: boolean
+    readonly components?: readonly AbiParam[]
+}
+
+export interface AbiEntry {
+    readonly type: string
+    readonly name?: string
+    readonly inputs?: readonly AbiParam[]
+}
+
+type SmallIntBits = 8 | 16 | 24 | 32 | 40 | 48
+
+type AbiScalarValue<T extends string> = T extends
+    | `uint${SmallIntBits}`
+    | `int${SmallIntBits}`
+    ? number
+    : T extends `uint${string}` | `int${string}`
+    ? BigNumber
+    : T extends 'bool'
+    ? boolean
+    : string
+
+type AbiTypeValue<
+    T extends string,
+    C extends readonly AbiParam[] | undefined
+> = T extends `${infer E}[]`
+    ? AbiTypeValue<E, C>[]
+    : T extends `${infer E}[${number}]`
+    ? AbiTypeValue<E, C>[]
+    : T extends 'tuple'
+    ? C extends readonly AbiParam[]
+        ? AbiParamsTuple<C> & AbiParamsObject<C>
+        : never
+    : AbiScalarValue<T>
+
+export type AbiValue<P extends AbiParam> = AbiTypeValue<
+    P['type'],
+    P['components']
+>
+
+export type AbiParamsTuple<P extends readonly AbiParam[]> = {
+    -readonly [K in keyof P]: P[K] extends AbiParam ? AbiValue<P[K]> : never
+}
+
+export type AbiParamsObject<P extends readonly AbiParam[]> = {
+    [E in P[number] as E['name'] extends '' ? never : E['name']]: AbiValue<E>
+}
+
+type AbiEntryOf<
+    Abi extends readonly unknown[],
+    K extends string,
+    N extends string
+> = Extract<Abi[number], {readonly type: K; readonly name: N}>
+
+type AbiEntryInputs<E> = E extends {readonly inputs: infer P}
+    ? P extends readonly AbiParam[]
+        ? P
+        : []
+    : []
+
+/**
+ * ABI of errors generated by Solidity for `require`/`revert` with a message and for `assert` or a runtime failure.
+ */
+export type BuiltinErrorsAbi = readonly [
+    {
+        readonly type: 'error'
+        readonly name: 'Error'
+        readonly inputs: readonly [
+            {readonly name: 'reason'; readonly type: 'string'}
+        ]
+    },
+    {
+        readonly type: 'error'
+        readonly name: 'Panic'
+        readonly inputs: readonly [
+            {readonly name: 'code'; readonly type: 'uint256'}
+        ]
+    }
+]
+
+/**
+ * Names of custom errors declared by the ABI.
+ */
+export type AbiErrorNames<Abi extends readonly unknown[]> =
+    Abi[number] extends {readonly type: infer T}
+        ? string extends T
+            ? string
+            : Extract<Abi[number], {readonly type: 'error'}> extends {
+                  readonly name: infer N
+              }
+            ? N & string
+            : never
+        : string
+
+/**
+ * Decoded arguments of the custom error as a tuple.
+ */
+export type AbiErrorTuple<
+    Abi extends readonly unknown[],
+    N extends string
+> = AbiParamsTuple<AbiEntryInputs<AbiEntryOf<Abi, 'error', N>>>
+
+/**
+ * Decoded arguments of the custom error as an object.
+ */
+export type AbiErrorObject<
+    Abi extends readonly unknown[],
+    N extends string
+> = AbiParamsObject<AbiEntryInputs<AbiEntryOf<Abi, 'error', N>>>
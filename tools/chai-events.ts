@@ -0,0 +1,180 @@
+/* eslint-disable no-invalid-this */
+// chai assertions are implemented by functions bound to an assertion object
+
+import {ContractReceipt} from 'ethers'
+import {matchEventLog} from './event-filters'
+import {EventFactoryOmni, PartialEventIn} from './event-wrapper'
+import {contractReceiptOf, ContractReceiptSource} from './transaction'
+
+const EVENT_FLAG = 'typedEvent'
+const ARGS_FLAG = 'typedEventArgs'
+const TIMES_FLAG = 'typedEventTimes'
+const IN_ORDER_FLAG = 'typedEventInOrder'
+
+type AnyEventFactory = EventFactoryOmni<unknown[], object, object>
+
+/**
+ * Assertion of a typed event, it must be awaited to perform the check.
+ */
+export interface TypedEventAssertion<A extends unknown[], O extends object>
+    extends Chai.Assertion,
+        PromiseLike<void> {
+    /**
+     * Matches events by the given partial arguments.
+     */
+    withArgs(args: PartialEventIn<A, O>): TypedEventAssertion<A, O>
+
+    /**
+     * Expects exactly the given number of matched events.
+     */
+    times(count: number): TypedEventAssertion<A, O>
+
+    /**
+     * Expects events matched by the given partial arguments in the given order.
+     * See `expectOrdered` of event type wrapper.
+     */
+    inOrder(...args: PartialEventIn<A, O>[]): TypedEventAssertion<A, O>
+
+    catch(onRejected?: (reason: unknown) => unknown): Promise<unknown>
+}
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    export namespace Chai {
+        interface Assertion {
+            /**
+             * Expects a transaction or a receipt to emit the given typed event.
+             * Supports `.not`, `.withArgs(...)`, `.times(n)` and `.inOrder(...)`.
+             *
+             * @param event a typed event wrapper, e.g. eventOf(box, 'Stored')
+             */
+            emitTyped<A extends unknown[], O extends object, R extends O>(
+                event: EventFactoryOmni<A, O, R>
+            ): TypedEventAssertion<A, O>
+        }
+    }
+}
+
+/**
+ * Chai plugin for typed events, use it as `chai.use(typedEventsPlugin)`.
+ *
+ * NB! When used together with hardhat-chai-matchers, this plugin must be added after,
+ * as both plugins provide `withArgs`.
+ */
+export const typedEventsPlugin: Chai.ChaiPlugin = (chai, utils) => {
+    chai.Assertion.addMethod(
+        'emitTyped',
+        function (this: Chai.AssertionStatic, event: AnyEventFactory) {
+            utils.flag(this, EVENT_FLAG, event)
+            const source = this._obj as ContractReceiptSource
+
+            const check = async (): Promise<void> => {
+                const receipt = await contractReceiptOf(source)
+                _assertEvents(this, receipt, utils)
+            }
+
+            const self = this as unknown as PromiseLike<void>
+            Object.defineProperty(this, 'then', {
+                configurable: true,
+                value: (
+                    onFulfilled?: (value: void) => unknown,
+                    onRejected?: (reason: unknown) => unknown
+                ) => check().then(onFulfilled, onRejected)
+            })
+            Object.defineProperty(this, 'catch', {
+                configurable: true,
+                value: (onRejected?: (reason: unknown) => unknown) =>
+                    check().catch(onRejected)
+            })
+            return self
+        }
+    )
+
+    const chainedMethod = (
+        name: string,
+        apply: (assertion: Chai.AssertionStatic, args: unknown[]) => void
+    ) =>
+        utils.overwriteMethod(
+            chai.Assertion.prototype,
+            name,
+            (_super: (...args: unknown[]) => unknown) =>
+                function (this: Chai.AssertionStatic, ...args: unknown[]) {
+                    if (!utils.flag(this, EVENT_FLAG)) {
+                        return _super.apply(this, args) as unknown
+                    }
+                    apply(this, args)
+                    return this
+                }
+        )
+
+    chainedMethod('withArgs', (assertion, args) => {
+        utils.flag(assertion, ARGS_FLAG, args[0])
+    })
+    chainedMethod('times', (assertion, args) => {
+        utils.flag(assertion, TIMES_FLAG, args[0])
+    })
+    chainedMethod('inOrder', (assertion, args) => {
+        utils.flag(assertion, IN_ORDER_FLAG, args)
+    })
+}
+
+function _assertEvents(
+    assertion: Chai.AssertionStatic,
+    receipt: ContractReceipt,
+    utils: Chai.ChaiUtils
+): void {
+    const event = utils.flag(assertion, EVENT_FLAG) as AnyEventFactory
+    const inOrder = utils.flag(assertion, IN_ORDER_FLAG) as
+        | PartialEventIn<unknown[], object>[]
+        | undefined
+
+    if (inOrder) {
+        let failure: unknown
+        try {
+            event.expectOrdered(receipt, inOrder, true)
+        } catch (error: unknown) {
+            failure = error
+        }
+        assertion.assert(
+            // eslint-disable-next-line no-undefined
+            failure === undefined,
+            `Expected events ${event.toString()} in order, but: ${String(
+                failure
+            )}`,
+            `Expected events ${event.toString()} not to be in the given order`,
+            inOrder
+        )
+        return
+    }
+
+    const args = utils.flag(assertion, ARGS_FLAG) as
+        | PartialEventIn<unknown[], object>
+        | undefined
+    const filter = event.newFilter(args)
+    const count = receipt.logs.filter((log) =>
+        matchEventLog(log, filter)
+    ).length
+    const times = utils.flag(assertion, TIMES_FLAG) as number | undefined
+    const described = args
+        ? `${event.toString()} with given args`
+        : event.toString()
+
+    // eslint-disable-next-line no-undefined
+    if (times === undefined) {
+        assertion.assert(
+            count > 0,
+            `Expected event ${described} to be emitted`,
+            `Expected event ${described} not to be emitted, but it was emitted ${count} time(s)`,
+            'at least 1',
+            count
+        )
+    } else {
+        assertion.assert(
+            count === times,
+            `Expected event ${described} to be emitted ${times} time(s), but it was emitted ${count} time(s)`,
+            `Expected event ${described} not to be emitted ${times} time(s)`,
+            times,
+            count
+        )
+    }
+}
@@ -1,4 +1,52 @@
-import {BaseContract, Contract, ContractFactory, Signer} from 'ethers'
+import {
+    BaseContract,
+    BigNumber,
+    constants,
+    Contract,
+    ContractFactory,
+    ContractReceipt,
+    Overrides,
+    providers,
+    Signer,
+    utils
+} from 'ethers'
+import {
+    AbiErrorNames,
+    AbiErrorObject,
+    AbiErrorTuple,
+    BuiltinErrorsAbi
+} from './abi-types'
+import {Create2Salt, deployCreate2, predictCreate2Address} from './create2'
+import {
+    bytecodeHashOf,
+    deployArgsToJson,
+    DeploymentStore,
+    isSameDeployment
+} from './deployments'
+import {ErrorFactory, wrapErrorType} from './error-wrapper'
+import {
+    compareAbiInterfaces,
+    expectCompatibleInterfaces,
+    InterfaceComparison,
+    InterfaceComparisonOptions,
+    versionPairsOf,
+    VersionComparisonOptions
+} from './interface-compat'
+import {
+    getKnownProvider,
+    knownContractNameOf,
+    registerContractAddress,
+    registerContractType,
+    registerProvider
+} from './known-contracts'
+import {implementationOf, isDeployedBytecodeOf} from './proxy'
+import {decodeLogs, ReceiptLogEntry} from './receipt-decoder'
+import {LazySigner, resolveSigner, SignerPool} from './signers'
+import {
+    contractReceiptOf,
+    hasTransactionObservers,
+    notifyTransactionObservers
+} from './transaction'
 
 const FACTORY_SUFFIX = '__factory' as const
 type ContractFactoryName<K extends string> = `${K}${typeof FACTORY_SUFFIX}`
@@ -23,15 +71,49 @@ type ContractFactoryConstructor<
     C extends Contract = Contract,
     A extends unknown[] = unknown[]
 > = new (signer: Signer) => Deployable<C, A>
+
+interface LibraryLinker<L> {
+    linkBytecode(linkLibraryAddresses: L): string
+}
+
+/*
+ * Typechain factories of contracts with external libraries take addresses
+ * of libraries by fully qualified names, e.g. `contracts/Lib.sol:Lib`.
+ */
+type LinkedContractFactoryConstructor<
+    C extends Contract = Contract,
+    A extends unknown[] = unknown[],
+    L = Record<string, string>
+> = LibraryLinker<L> &
+    (new (linkLibraryAddresses: L, signer?: Signer) => Deployable<C, A>)
+
 type ExtractContractType<F> = F extends ContractFactoryConstructor<infer R>
+    ? R
+    : F extends LinkedContractFactoryConstructor<infer R, unknown[], never>
     ? R
     : never
 type ExtractDeployArgs<F> = F extends ContractFactoryConstructor<
     Contract,
     infer R
 >
+    ? R
+    : F extends LinkedContractFactoryConstructor<Contract, infer R, never>
     ? R
     : never
+/*
+ * Typechain adds optional overrides as the last arg of deploy.
+ */
+type SplitDeployArgs<A extends unknown[]> = Required<A> extends [
+    ...infer H,
+    infer L
+]
+    ? L extends Overrides
+        ? [H, L]
+        : [A, never]
+    : [A, never]
+type ExtractConstructorArgs<F> = SplitDeployArgs<ExtractDeployArgs<F>>[0]
+type ExtractDeployOverrides<F> = SplitDeployArgs<ExtractDeployArgs<F>>[1]
+type ExtractLibraryAddresses<F> = F extends LibraryLinker<infer R> ? R : never
 type ExtractBaseContractType<F> = F extends InterfaceFactory<infer R>
     ? R
     : never
@@ -39,12 +121,80 @@ type ExtractInterfaceType<F> = F extends InterfaceFactory<infer R>
     ? R['interface']
     : never
 
+type ExtractAbi<F> = F extends {
+    readonly abi: infer R extends readonly unknown[]
+}
+    ? R
+    : never
+
+/*
+ * Typechain contract types don't refer to ABI, so a factory is looked up by
+ * mutual assignability of the contract type with the factory's contract type.
+ */
+type ContractAbi<I extends Imports, C extends BaseContract> =
+    | {
+          [K in keyof I]: I[K] extends InterfaceFactory<infer R>
+              ? [C] extends [R]
+                  ? [R] extends [C]
+                      ? ExtractAbi<I[K]>
+                      : never
+                  : never
+              : never
+      }[keyof I]
+    | BuiltinErrorsAbi
+
+export type ContractErrorFunction<I extends Imports> = <
+    C extends BaseContract,
+    N extends AbiErrorNames<ContractAbi<I, C>>
+>(
+    emitter: C,
+    name: N
+) => ErrorFactory<
+    Extract<AbiErrorTuple<ContractAbi<I, C>, N>, unknown[]>,
+    AbiErrorObject<ContractAbi<I, C>, N>
+>
+
+export interface DeployOptions<L = Record<string, string>> {
+    signer?: Signer
+    /* a key of the deployment store, the contract name by default */
+    alias?: string
+    /* overrides ImportedFactoriesOptions.reuseDeployments */
+    reuse?: boolean
+    /* addresses of libraries to be linked, missing ones are deployed */
+    libraries?: Partial<L>
+}
+
+export interface AttachDeployedOptions {
+    signer?: Signer
+    /* a key of the deployment store, the contract name by default */
+    alias?: string
+}
+
+export interface ImportedFactoriesOptions {
+    /* records contracts deployed by `deploy` */
+    deployments?: DeploymentStore
+    /*
+     * when true, `deploy` returns a contract from the store instead of a new deployment,
+     * unless bytecode or deploy args have changed, or there is no code at the address
+     */
+    reuseDeployments?: boolean
+    /* addresses of libraries by fully qualified names or by names of contracts */
+    libraries?: Record<string, string>
+    /*
+     * a provider of contracts attached before a promise of the default signer is resolved,
+     * the known provider is used when undefined
+     */
+    provider?: providers.Provider
+}
+
 export type ContractDeployFunction<I extends Imports> = <
     N extends ExtractContractName<keyof I & string>
 >(
     name: N,
     deployArgs: ExtractDeployArgs<I[ContractFactoryName<N>]>,
-    signer?: Signer
+    signer?:
+        | Signer
+        | DeployOptions<ExtractLibraryAddresses<I[ContractFactoryName<N>]>>
 ) => Promise<ExtractContractType<I[ContractFactoryName<N>]>>
 export type ContractAttachFunction<I extends Imports> = <
     N extends ExtractContractName<keyof I & string>
@@ -53,11 +203,54 @@ export type ContractAttachFunction<I extends Imports> = <
     address: string,
     signer?: Signer
 ) => ExtractBaseContractType<I[ContractFactoryName<N>]>
-export type ContractAsyncAttachFunction<I extends Imports> = <
+export interface DeployResult<C extends BaseContract> {
+    contract: C
+    receipt: ContractReceipt
+    gasUsed: BigNumber
+    address: string
+}
+
+export type ContractDeployWithReceiptFunction<I extends Imports> = <
     N extends ExtractContractName<keyof I & string>
 >(
     name: N,
-    address: string,
+    constructorArgs: ExtractConstructorArgs<I[ContractFactoryName<N>]>,
+    overrides?: ExtractDeployOverrides<I[ContractFactoryName<N>]>,
+    signer?:
+        | Signer
+        | DeployOptions<ExtractLibraryAddresses<I[ContractFactoryName<N>]>>
+) => Promise<DeployResult<ExtractContractType<I[ContractFactoryName<N>]>>>
+export type ContractDeterministicDeployFunction<I extends Imports> = <
+    N extends ExtractContractName<keyof I & string>
+>(
+    name: N,
+    deployArgs: ExtractDeployArgs<I[ContractFactoryName<N>]>,
+    salt: Create2Salt,
+    signer?:
+        | Signer
+        | DeployOptions<ExtractLibraryAddresses<I[ContractFactoryName<N>]>>
+) => Promise<ExtractContractType<I[ContractFactoryName<N>]>>
+export type ContractPredictAddressFunction<I extends Imports> = <
+    N extends ExtractContractName<keyof I & string>
+>(
+    name: N,
+    deployArgs: ExtractDeployArgs<I[ContractFactoryName<N>]>,
+    salt: Create2Salt,
+    signer?:
+        | Signer
+        | DeployOptions<ExtractLibraryAddresses<I[ContractFactoryName<N>]>>
+) => Promise<string>
+export type ContractAttachDeployedFunction<I extends Imports> = <
+    N extends ExtractContractName<keyof I & string>
+>(
+    name: N,
+    options?: AttachDeployedOptions
+) => Promise<ExtractBaseContractType<I[ContractFactoryName<N>]>>
+export type ContractAttachProxyFunction<I extends Imports> = <
+    N extends ExtractContractName<keyof I & string>
+>(
+    name: N,
+    proxyAddress: string,
     signer?: Signer
 ) => Promise<ExtractBaseContractType<I[ContractFactoryName<N>]>>
 export type ContractInterfaceFunction<I extends Imports> = <
@@ -66,10 +259,106 @@ export type ContractInterfaceFunction<I extends Imports> = <
     name: N
 ) => ExtractInterfaceType<I[ContractFactoryName<N>]>
 
-export interface ImportedFactories<I extends Imports> {
+export type ContractCompareInterfacesFunction<I extends Imports> = (
+    from: ContractName<I>,
+    to: ContractName<I>,
+    options?: InterfaceComparisonOptions
+) => InterfaceComparison
+
+export type ContractName<I extends Imports> = ExtractContractName<
+    keyof I & string
+>
+
+export type ContractTypeOf<
+    I extends Imports,
+    N extends ContractName<I>
+> = ExtractContractType<I[ContractFactoryName<N>]>
+
+export type DeployArgsOf<
+    I extends Imports,
+    N extends ContractName<I>
+> = ExtractDeployArgs<I[ContractFactoryName<N>]>
+
+export type LibraryAddressesOf<
+    I extends Imports,
+    N extends ContractName<I>
+> = ExtractLibraryAddresses<I[ContractFactoryName<N>]>
+
+export type ContractReceiptDecodeFunction<I extends Imports> = (
+    receipt: Pick<ContractReceipt, 'logs'>,
+    emitters?: Record<string, ContractName<I>>
+) => ReceiptLogEntry<ContractName<I>>[]
+
+export interface ImportedFactories<
+    I extends Imports,
+    R extends string = never
+> {
+    /**
+     * Deploys a contract by name. When a deployment store is configured, then
+     * the deployment is recorded under the contract name or the given alias.
+     *
+     * Libraries required by the contract are linked by the given addresses,
+     * missing ones are deployed once per chain by their factories.
+     */
     deploy: ContractDeployFunction<I>
+    /**
+     * Deploys a contract, same as `deploy`, but also provides the receipt of the deployment,
+     * e.g. to check events emitted by the constructor. Overrides are given separately of
+     * constructor args, e.g. `value` for a payable constructor.
+     * A recorded deployment is never reused.
+     */
+    deployWithReceipt: ContractDeployWithReceiptFunction<I>
+    /**
+     * Deploys a contract by CREATE2 of the singleton deployer, so the address
+     * only depends on the bytecode, deploy args and the salt, but not on the signer nor the chain.
+     * The singleton deployer is deployed when it is missing on a local chain.
+     * When the contract is already deployed, then it is attached.
+     */
+    deployDeterministic: ContractDeterministicDeployFunction<I>
+    /**
+     * Computes the address of `deployDeterministic` with the same arguments.
+     */
+    predictAddress: ContractPredictAddressFunction<I>
+    /**
+     * Attaches a contract by name. The default signer can be unresolved yet,
+     * then the contract is connected to a signer resolved on the first use.
+     */
     attach: ContractAttachFunction<I>
+    /**
+     * Attaches a contract by an address from the deployment store
+     * for the chain of the signer.
+     */
+    attachDeployed: ContractAttachDeployedFunction<I>
+    /**
+     * Attaches a contract by an address of an EIP-1967 proxy.
+     * Throws an error when the implementation behind the proxy
+     * is not deployed by the bytecode of the named factory.
+     */
+    attachProxy: ContractAttachProxyFunction<I>
     interface: ContractInterfaceFunction<I>
+    /**
+     * Compares interfaces of two contract types, e.g. of versions of an upgradeable contract,
+     * by topic0 and indexed params of events, and by selectors of functions and of custom errors.
+     * With `strict`, fails on breaking changes.
+     */
+    compareInterfaces: ContractCompareInterfacesFunction<I>
+    /**
+     * Compares interfaces of consecutive versions of every contract type with versions,
+     * e.g. Box -> BoxV2 -> BoxV3. With `strict`, fails on breaking changes of any pair.
+     */
+    compareVersions(options?: VersionComparisonOptions): InterfaceComparison[]
+    errorOf: ContractErrorFunction<I>
+    /**
+     * Decodes all logs of the receipt by events of the imported contract types.
+     * An emitter is resolved by the given map, or by contracts deployed or attached
+     * by this tooling, or by topic0 of the log otherwise.
+     * Logs which can't be decoded are flagged by `decoded: false`.
+     *
+     * @param receipt to provide logs
+     * @param emitters optional map of addresses to contract types
+     * @return decoded log entries in the order of logs
+     */
+    decodeReceipt: ContractReceiptDecodeFunction<I>
     deployWithDelegate(
         delegateFn: (
             factory: ContractFactory,
@@ -77,39 +366,93 @@ export interface ImportedFactories<I extends Imports> {
         ) => Promise<Contract>,
         signer?: PromiseOrValue<Signer>
     ): ContractDeployFunction<I>
+    /**
+     * Same as `attach`, but the delegate is called with a factory, e.g. to upgrade a proxy.
+     * The contract is returned at once, `deployed()` awaits the delegate,
+     * then `deployTransaction` of the delegated contract is available.
+     *
+     * NB! Deployments made by a delegate are not recorded
+     */
     attachWithDelegate(
         delegateFn: (
             factory: ContractFactory,
             address: string
         ) => Promise<Contract>,
         signer?: PromiseOrValue<Signer>
-    ): ContractAsyncAttachFunction<I>
+    ): ContractAttachFunction<I>
+    /**
+     * Provides a signer of the role from the signer pool, it is resolved on the first use.
+     */
+    signer(role: R): Signer
+    /**
+     * Connects the contract to a signer of the role or to the given signer.
+     * The typechain type of the contract is kept.
+     */
+    as<C extends BaseContract>(contract: C, role: R | Signer): C
 }
 
-export function wrapImportedFactories<I extends Imports>(
+/**
+ * Wraps typechain factories to deploy and to attach contracts by names.
+ *
+ * @param imports typechain factories, e.g. `import * as types from './typechain'`
+ * @param defaultSigner a signer or a signer pool, the first role of a pool is the default
+ * @param options a deployment store and addresses of libraries
+ */
+export function wrapImportedFactories<
+    I extends Imports,
+    R extends string = never
+>(
     imports: I,
-    defaultSigner?: PromiseOrValue<Signer>
-): ImportedFactories<I> {
-    return new (class implements ImportedFactories<I> {
-        findSignerAsync(
-            s1?: PromiseOrValue<Signer>,
-            s2?: PromiseOrValue<Signer>
-        ): PromiseOrValue<Signer> {
-            const s = s1 ?? s2 ?? defaultSigner
-            if (s) {
-                return s
-            }
-            throw new Error('Signer is not available')
+    defaultSigner?: PromiseOrValue<Signer> | SignerPool<R>,
+    options?: ImportedFactoriesOptions
+): ImportedFactories<I, R> {
+    const deployments = options?.deployments
+    const libraries = new Map<string, Promise<string>>()
+    const contractNames: ContractName<I>[] = []
+    for (const [key, value] of Object.entries(imports)) {
+        if (
+            key.endsWith(FACTORY_SUFFIX) &&
+            typeof (value as Partial<InterfaceFactory<BaseContract>>)
+                ?.createInterface === 'function'
+        ) {
+            const factoryClass = value as InterfaceFactory<BaseContract>
+            const name = key.substring(
+                0,
+                key.length - FACTORY_SUFFIX.length
+            ) as ContractName<I>
+            contractNames.push(name)
+            registerContractType(name, () => factoryClass.createInterface())
         }
+    }
+    let interfaces: Map<ContractName<I>, utils.Interface> | undefined
+    const pool = defaultSigner instanceof SignerPool ? defaultSigner : null
+    const fallbackSigner = pool
+        ? pool.signer(pool.roles[0])
+        : _signerOf(
+              defaultSigner as PromiseOrValue<Signer> | undefined,
+              options?.provider
+          )
+    registerProvider(pool?.provider ?? fallbackSigner?.provider)
 
-        findSigner(s1?: Signer): Signer {
-            if (s1) {
-                return s1
-            }
-            if (Signer.isSigner(defaultSigner)) {
-                return defaultSigner
+    return new (class implements ImportedFactories<I, R> {
+        // an unresolved signer is replaced by a lazy one
+        findSigner(s1?: Signer, s2?: Signer): Signer {
+            const s = s1 ?? s2 ?? fallbackSigner
+            if (!s) {
+                throw new Error('Signer is not available')
             }
-            throw new Error('Signer is not available or needs to be resolved')
+            return s instanceof LazySigner ? s.resolved ?? s : s
+        }
+
+        findSignerAsync(s1?: Signer, s2?: Signer): Promise<Signer> {
+            return resolveSigner(this.findSigner(s1, s2))
+        }
+
+        // makes the contract known for diagnostics of transactions
+        track<C extends BaseContract>(name: string, contract: C): C {
+            registerContractAddress(contract.address, name)
+            registerProvider(contract.provider)
+            return contract
         }
 
         factoryClassByName(name: string): InterfaceFactory<BaseContract> {
@@ -122,22 +465,400 @@ export function wrapImportedFactories<I extends Imports>(
             return factoryClass
         }
 
+        async newFactory(
+            name: string,
+            signer: Signer,
+            linkLibraries?: Partial<Record<string, string>>
+        ): Promise<ContractFactory> {
+            const factory = await this.linkFactory(
+                name,
+                signer,
+                linkLibraries,
+                (library, libraryName) =>
+                    this.deployLibrary(library, libraryName, signer)
+            )
+            if (!factory) {
+                throw new Error(`Libraries of ${name} are not linked`)
+            }
+            return factory
+        }
+
+        // a missing library is resolved by the given function, undefined when it is not resolved
+        async linkFactory(
+            name: string,
+            signer: Signer,
+            linkLibraries: Partial<Record<string, string>> | undefined,
+            resolveLibrary: (
+                library: string,
+                libraryName: string
+            ) => Promise<string | undefined>
+        ): Promise<ContractFactory | undefined> {
+            const factoryClass = this.factoryClassByName(name) as unknown as
+                | ContractFactoryConstructor
+                | LinkedContractFactoryConstructor
+            if (!_isLinkedFactory(factoryClass)) {
+                return new factoryClass(signer)
+            }
+            const addresses: Record<string, string> = {}
+            for (const library of _librariesOf(factoryClass)) {
+                const libraryName = library.substring(
+                    library.lastIndexOf(':') + 1
+                )
+                const address =
+                    linkLibraries?.[library] ??
+                    options?.libraries?.[library] ??
+                    options?.libraries?.[libraryName] ??
+                    (await resolveLibrary(library, libraryName))
+                if (!address) {
+                    return
+                }
+                addresses[library] = address
+            }
+            return new factoryClass(addresses, signer)
+        }
+
+        /*
+         * Attaches a recorded deployment of the same bytecode and deploy args.
+         * Libraries are linked by addresses of earlier deployments, nothing is deployed.
+         */
+        async reuseDeployment(
+            name: string,
+            key: string,
+            deployArgs: unknown[],
+            signer: Signer,
+            linkLibraries?: Partial<Record<string, string>>
+        ): Promise<BaseContract | undefined> {
+            if (!signer.provider) {
+                throw new Error('Signer has no provider')
+            }
+            const chainId = await signer.getChainId()
+            const record = deployments?.get(chainId, key)
+            if (!record) {
+                return
+            }
+            // a deployment of another contract type is not replaced silently
+            if (record.contractName !== name) {
+                throw new Error(
+                    `Deployment ${key} is of contract type ${record.contractName}, not ${name}`
+                )
+            }
+            const factory = await this.linkFactory(
+                name,
+                signer,
+                linkLibraries,
+                async (library, libraryName) =>
+                    (await libraries.get(`${chainId}:${library}`)) ??
+                    (
+                        await this.reuseDeployment(
+                            libraryName,
+                            libraryName,
+                            [],
+                            signer
+                        )
+                    )?.address
+            )
+            if (
+                factory &&
+                isSameDeployment(record, bytecodeHashOf(factory), deployArgs) &&
+                (await signer.provider.getCode(record.address)) !== '0x'
+            ) {
+                return factory.attach(record.address)
+            }
+        }
+
+        // libraries are deployed once per chain and are shared by all contracts
+        async deployLibrary(
+            library: string,
+            libraryName: string,
+            signer: Signer
+        ): Promise<string> {
+            const key = `${await signer.getChainId()}:${library}`
+            let address = libraries.get(key)
+            // a revert of the chain, e.g. by a fixture, can discard the library
+            if (
+                // eslint-disable-next-line no-undefined
+                address !== undefined &&
+                (await signer.provider?.getCode(await address)) === '0x'
+            ) {
+                if (libraries.get(key) === address) {
+                    libraries.delete(key)
+                }
+                address = libraries.get(key)
+            }
+            // eslint-disable-next-line no-undefined
+            if (address === undefined) {
+                if (!(`${libraryName}${FACTORY_SUFFIX}` in imports)) {
+                    throw new Error(
+                        `Library ${library} is not linked and its factory is missing`
+                    )
+                }
+                const deploy = this.deploy.bind(this) as unknown as (
+                    name: string,
+                    deployArgs: unknown[],
+                    deployOptions: DeployOptions
+                ) => Promise<BaseContract>
+                address = deploy(libraryName, [], {signer}).then(
+                    (contract) => contract.address
+                )
+                libraries.set(key, address)
+                address.catch(() => libraries.delete(key))
+            }
+            return address
+        }
+
         async deploy<N extends ExtractContractName<keyof I & string>>(
             name: N,
             deployArgs: ExtractDeployArgs<I[ContractFactoryName<N>]>,
-            signer?: Signer
+            signerOrOptions?:
+                | Signer
+                | DeployOptions<
+                      ExtractLibraryAddresses<I[ContractFactoryName<N>]>
+                  >
         ): Promise<ExtractContractType<I[ContractFactoryName<N>]>> {
-            const factoryClass = this.factoryClassByName(
-                name
-            ) as unknown as ContractFactoryConstructor
-            const factory = new factoryClass(await this.findSignerAsync(signer))
+            const deployOptions = _deployOptionsOf(
+                signerOrOptions as Signer | DeployOptions | undefined
+            )
+            const signer = await this.findSignerAsync(deployOptions.signer)
+            const key = deployOptions.alias ?? name
+
+            if (
+                deployments &&
+                (deployOptions.reuse ?? options?.reuseDeployments)
+            ) {
+                const reused = await this.reuseDeployment(
+                    name,
+                    key,
+                    deployArgs,
+                    signer,
+                    deployOptions.libraries
+                )
+                if (reused) {
+                    return this.track(name, reused) as ExtractContractType<
+                        I[ContractFactoryName<N>]
+                    >
+                }
+            }
+
+            const factory = await this.newFactory(
+                name,
+                signer,
+                deployOptions.libraries
+            )
+            const chainId = deployments ? await signer.getChainId() : 0
             const contract = await factory.deploy(...deployArgs)
             const deployed = (await contract.deployed()) as ExtractContractType<
                 I[ContractFactoryName<N>]
             >
+            this.track(name, deployed as BaseContract)
+
+            if (deployments || hasTransactionObservers()) {
+                const receipt = await contract.deployTransaction.wait()
+                if (deployments) {
+                    this.record(
+                        chainId,
+                        key,
+                        name,
+                        contract.address,
+                        deployArgs,
+                        factory,
+                        receipt
+                    )
+                }
+                await notifyTransactionObservers(
+                    receipt,
+                    contract.deployTransaction
+                )
+            }
             return deployed
         }
 
+        async deployWithReceipt<
+            N extends ExtractContractName<keyof I & string>
+        >(
+            name: N,
+            constructorArgs: ExtractConstructorArgs<I[ContractFactoryName<N>]>,
+            overrides?: ExtractDeployOverrides<I[ContractFactoryName<N>]>,
+            signerOrOptions?:
+                | Signer
+                | DeployOptions<
+                      ExtractLibraryAddresses<I[ContractFactoryName<N>]>
+                  >
+        ): Promise<
+            DeployResult<ExtractContractType<I[ContractFactoryName<N>]>>
+        > {
+            const deployArgs = (
+                overrides ? [...constructorArgs, overrides] : constructorArgs
+            ) as ExtractDeployArgs<I[ContractFactoryName<N>]>
+            const contract = await this.deploy(name, deployArgs, {
+                ..._deployOptionsOf(
+                    signerOrOptions as Signer | DeployOptions | undefined
+                ),
+                reuse: false
+            } as DeployOptions<ExtractLibraryAddresses<I[ContractFactoryName<N>]>>)
+            const receipt = await contractReceiptOf(contract.deployTransaction)
+            return {
+                contract,
+                receipt,
+                gasUsed: receipt.gasUsed,
+                address: contract.address
+            }
+        }
+
+        async deployDeterministic<
+            N extends ExtractContractName<keyof I & string>
+        >(
+            name: N,
+            deployArgs: ExtractDeployArgs<I[ContractFactoryName<N>]>,
+            salt: Create2Salt,
+            signerOrOptions?:
+                | Signer
+                | DeployOptions<
+                      ExtractLibraryAddresses<I[ContractFactoryName<N>]>
+                  >
+        ): Promise<ExtractContractType<I[ContractFactoryName<N>]>> {
+            const deployOptions = _deployOptionsOf(
+                signerOrOptions as Signer | DeployOptions | undefined
+            )
+            const signer = await this.findSignerAsync(deployOptions.signer)
+            const factory = await this.newFactory(
+                name,
+                signer,
+                deployOptions.libraries
+            )
+            const {data, ...overrides} = _deployRequestOf(factory, deployArgs)
+            // the contract is known before the deployment is reported to observers
+            const contract = this.track(
+                name,
+                factory.attach(predictCreate2Address(data, salt))
+            )
+            const [address, receipt, tx] = await deployCreate2(
+                signer,
+                data,
+                salt,
+                overrides
+            )
+            if (deployments && receipt) {
+                this.record(
+                    await signer.getChainId(),
+                    deployOptions.alias ?? name,
+                    name,
+                    address,
+                    deployArgs,
+                    factory,
+                    receipt
+                )
+            }
+            if (tx) {
+                utils.defineReadOnly(contract, 'deployTransaction', tx)
+            }
+            return contract as ExtractContractType<I[ContractFactoryName<N>]>
+        }
+
+        async predictAddress<N extends ExtractContractName<keyof I & string>>(
+            name: N,
+            deployArgs: ExtractDeployArgs<I[ContractFactoryName<N>]>,
+            salt: Create2Salt,
+            signerOrOptions?:
+                | Signer
+                | DeployOptions<
+                      ExtractLibraryAddresses<I[ContractFactoryName<N>]>
+                  >
+        ): Promise<string> {
+            const deployOptions = _deployOptionsOf(
+                signerOrOptions as Signer | DeployOptions | undefined
+            )
+            const factory = await this.newFactory(
+                name,
+                await this.findSignerAsync(deployOptions.signer),
+                deployOptions.libraries
+            )
+            return predictCreate2Address(
+                _deployRequestOf(factory, deployArgs).data,
+                salt
+            )
+        }
+
+        record(
+            chainId: number,
+            key: string,
+            name: string,
+            address: string,
+            deployArgs: unknown[],
+            factory: ContractFactory,
+            receipt: providers.TransactionReceipt
+        ): void {
+            deployments?.set(chainId, key, {
+                contractName: name,
+                address,
+                deployArgs: deployArgsToJson(deployArgs),
+                transactionHash: receipt.transactionHash,
+                blockNumber: receipt.blockNumber,
+                deployer: receipt.from,
+                bytecodeHash: bytecodeHashOf(factory)
+            })
+        }
+
+        async attachDeployed<N extends ExtractContractName<keyof I & string>>(
+            name: N,
+            attachOptions?: AttachDeployedOptions
+        ): Promise<ExtractBaseContractType<I[ContractFactoryName<N>]>> {
+            if (!deployments) {
+                throw new Error('Deployment store is not configured')
+            }
+            const signer = await this.findSignerAsync(attachOptions?.signer)
+            const chainId = await signer.getChainId()
+            const key = attachOptions?.alias ?? name
+            const record = deployments.get(chainId, key)
+            if (!record) {
+                throw new Error(
+                    `Deployment ${key} is not found for chain ${chainId}`
+                )
+            }
+            if (record.contractName !== name) {
+                throw new Error(
+                    `Deployment ${key} is of contract type ${record.contractName}, not ${name}`
+                )
+            }
+            return this.attach(name, record.address, signer)
+        }
+
+        async attachProxy<N extends ExtractContractName<keyof I & string>>(
+            name: N,
+            proxyAddress: string,
+            signer?: Signer
+        ): Promise<ExtractBaseContractType<I[ContractFactoryName<N>]>> {
+            const s = await this.findSignerAsync(signer)
+            if (!s.provider) {
+                throw new Error('Signer has no provider')
+            }
+            const implementation = await implementationOf(
+                s.provider,
+                proxyAddress
+            )
+            if (implementation === constants.AddressZero) {
+                throw new Error(
+                    `Proxy ${proxyAddress} has no EIP-1967 implementation`
+                )
+            }
+            const factoryClass = this.factoryClassByName(name) as unknown as
+                | ContractFactoryConstructor
+                | LinkedContractFactoryConstructor
+            const bytecode = _isLinkedFactory(factoryClass)
+                ? _linkZeroAddresses(factoryClass)
+                : new factoryClass(s).bytecode
+            if (
+                !isDeployedBytecodeOf(
+                    bytecode,
+                    await s.provider.getCode(implementation)
+                )
+            ) {
+                throw new Error(
+                    `Implementation ${implementation} of proxy ${proxyAddress} is not ${name}`
+                )
+            }
+            return this.attach(name, proxyAddress, s)
+        }
+
         deployWithDelegate(
             delegateFn: (
                 factory: ContractFactory,
@@ -145,18 +866,33 @@ export function wrapImportedFactories<I extends Imports>(
             ) => Promise<Contract>,
             signer?: PromiseOrValue<Signer>
         ): ContractDeployFunction<I> {
+            const delegateSigner = _signerOf(signer, options?.provider)
             const fn = async (
                 name: string,
                 deployArgs: unknown[],
-                signer2?: Signer
+                signer2?: Signer | DeployOptions
             ): Promise<Contract> => {
-                const factoryClass = this.factoryClassByName(
-                    name
-                ) as unknown as ContractFactoryConstructor
-                const factory = new factoryClass(
-                    await this.findSignerAsync(signer2, signer)
+                const deployOptions = _deployOptionsOf(signer2)
+                const factory = await this.newFactory(
+                    name,
+                    await this.findSignerAsync(
+                        deployOptions.signer,
+                        delegateSigner
+                    ),
+                    deployOptions.libraries
+                )
+                const contract = this.track(
+                    name,
+                    await delegateFn(factory, deployArgs)
                 )
-                return delegateFn(factory, deployArgs)
+                // a delegate can return an attached contract
+                if (hasTransactionObservers() && contract.deployTransaction) {
+                    await notifyTransactionObservers(
+                        await contract.deployTransaction.wait(),
+                        contract.deployTransaction
+                    )
+                }
+                return contract
             }
             return fn as unknown as ContractDeployFunction<I>
         }
@@ -167,9 +903,9 @@ export function wrapImportedFactories<I extends Imports>(
             signer?: Signer
         ): ExtractBaseContractType<I[ContractFactoryName<N>]> {
             const factoryClass = this.factoryClassByName(name)
-            return factoryClass.connect(
-                address,
-                this.findSigner(signer)
+            return this.track(
+                name,
+                factoryClass.connect(address, this.findSigner(signer))
             ) as ExtractBaseContractType<I[ContractFactoryName<N>]>
         }
 
@@ -179,21 +915,49 @@ export function wrapImportedFactories<I extends Imports>(
                 address: string
             ) => Promise<Contract>,
             signer?: PromiseOrValue<Signer>
-        ): ContractAsyncAttachFunction<I> {
-            const fn = async (
-                name: string,
+        ): ContractAttachFunction<I> {
+            const delegateSigner = _signerOf(signer, options?.provider)
+            const fn = (
+                name: ContractName<I>,
                 address: string,
                 signer2?: Signer
-            ): Promise<Contract> => {
-                const factoryClass = this.factoryClassByName(
-                    name
-                ) as unknown as ContractFactoryConstructor
-                const factory = new factoryClass(
-                    await this.findSignerAsync(signer2, signer)
+            ): BaseContract => {
+                const contract: BaseContract = this.attach(
+                    name,
+                    address,
+                    this.findSigner(signer2, delegateSigner)
                 )
-                return delegateFn(factory, address)
+                contract._deployedPromise = (async () => {
+                    const factory = await this.newFactory(
+                        name,
+                        await this.findSignerAsync(signer2, delegateSigner)
+                    )
+                    const delegated = await delegateFn(factory, address)
+                    if (delegated.deployTransaction) {
+                        utils.defineReadOnly(
+                            contract,
+                            'deployTransaction',
+                            delegated.deployTransaction
+                        )
+                    }
+                    return contract as Contract
+                })()
+                return contract
             }
-            return fn as unknown as ContractAsyncAttachFunction<I>
+            return fn as unknown as ContractAttachFunction<I>
+        }
+
+        signer(role: R): Signer {
+            if (!pool) {
+                throw new Error('Signer pool is not configured')
+            }
+            return this.findSigner(pool.signer(role))
+        }
+
+        as<C extends BaseContract>(contract: C, role: R | Signer): C {
+            return contract.connect(
+                Signer.isSigner(role) ? role : this.signer(role)
+            ) as C
         }
 
         interface<N extends ExtractContractName<keyof I & string>>(
@@ -204,5 +968,153 @@ export function wrapImportedFactories<I extends Imports>(
                 I[ContractFactoryName<N>]
             >
         }
+
+        compareInterfaces(
+            from: ContractName<I>,
+            to: ContractName<I>,
+            compareOptions?: InterfaceComparisonOptions
+        ): InterfaceComparison {
+            const comparison = compareAbiInterfaces(
+                from,
+                to,
+                this.factoryClassByName(from).createInterface(),
+                this.factoryClassByName(to).createInterface()
+            )
+            if (compareOptions?.strict) {
+                expectCompatibleInterfaces(comparison)
+            }
+            return comparison
+        }
+
+        compareVersions(
+            compareOptions?: VersionComparisonOptions
+        ): InterfaceComparison[] {
+            const comparisons = versionPairsOf(
+                contractNames,
+                compareOptions?.versionPattern
+            ).map(([from, to]) => this.compareInterfaces(from, to))
+            if (compareOptions?.strict) {
+                comparisons.forEach(expectCompatibleInterfaces)
+            }
+            return comparisons
+        }
+
+        decodeReceipt(
+            receipt: Pick<ContractReceipt, 'logs'>,
+            emitters?: Record<string, ContractName<I>>
+        ): ReceiptLogEntry<ContractName<I>>[] {
+            if (!interfaces) {
+                interfaces = new Map(
+                    contractNames.map((name) => [
+                        name,
+                        this.factoryClassByName(name).createInterface()
+                    ])
+                )
+            }
+            const byAddress = new Map<string, ContractName<I>>()
+            for (const [address, name] of Object.entries(emitters ?? {})) {
+                byAddress.set(address.toUpperCase(), name)
+            }
+            return decodeLogs(receipt.logs, interfaces, (emitter) => {
+                const name =
+                    byAddress.get(emitter.toUpperCase()) ??
+                    knownContractNameOf(emitter)
+                if (contractNames.includes(name as ContractName<I>)) {
+                    return name as ContractName<I>
+                }
+            })
+        }
+
+        errorOf<
+            C extends BaseContract,
+            N extends AbiErrorNames<ContractAbi<I, C>>
+        >(
+            emitter: C,
+            name: N
+        ): ErrorFactory<
+            Extract<AbiErrorTuple<ContractAbi<I, C>, N>, unknown[]>,
+            AbiErrorObject<ContractAbi<I, C>, N>
+        > {
+            return wrapErrorType(name, emitter as unknown as Contract)
+        }
     })()
 }
+
+function _signerOf(
+    signer?: PromiseOrValue<Signer>,
+    provider?: providers.Provider
+): Signer | undefined {
+    if (!signer) {
+        return
+    }
+    if (Signer.isSigner(signer)) {
+        return signer
+    }
+    // contracts take a provider of a signer when attached
+    const lazy = new LazySigner(() => signer, provider ?? getKnownProvider())
+    lazy.resolve().then(
+        (s) => registerProvider(s.provider),
+        () => {
+            // reported on use
+        }
+    )
+    return lazy
+}
+
+function _deployOptionsOf(signer?: Signer | DeployOptions): DeployOptions {
+    return Signer.isSigner(signer) ? {signer} : signer ?? {}
+}
+
+function _isLinkedFactory(
+    factoryClass: ContractFactoryConstructor | LinkedContractFactoryConstructor
+): factoryClass is LinkedContractFactoryConstructor {
+    return (
+        typeof (factoryClass as Partial<LibraryLinker<unknown>>)
+            .linkBytecode === 'function'
+    )
+}
+
+/*
+ * Names of libraries are only known to the generated linkBytecode(),
+ * so they are collected by reading of a given map of addresses.
+ */
+function _librariesOf(factoryClass: LibraryLinker<Record<string, string>>) {
+    const names: string[] = []
+    _linkZeroAddresses(factoryClass, (name) => {
+        if (!names.includes(name)) {
+            names.push(name)
+        }
+    })
+    return names
+}
+
+function _linkZeroAddresses(
+    factoryClass: LibraryLinker<Record<string, string>>,
+    onLibrary?: (name: string) => void
+): string {
+    return factoryClass.linkBytecode(
+        new Proxy(
+            {},
+            {
+                get: (_, name) => {
+                    if (typeof name === 'string') {
+                        onLibrary?.(name)
+                    }
+                    return constants.AddressZero
+                }
+            }
+        )
+    )
+}
+
+// init code as data, and overrides of the trailing argument, e.g. a value
+function _deployRequestOf(
+    factory: ContractFactory,
+    deployArgs: unknown[]
+): providers.TransactionRequest & {data: string} {
+    const request = factory.getDeployTransaction(...deployArgs)
+    if (!request.data) {
+        throw new Error('Deploy transaction has no bytecode')
+    }
+    return {...request, data: utils.hexlify(request.data)}
+}
@@ -0,0 +1,126 @@
+import {BigNumber, providers, Signer, utils} from 'ethers'
+import {
+    notifyTransactionObservers,
+    successfulUnobservedTransaction
+} from './transaction'
+
+/**
+ * Address of the deterministic deployment proxy, which is available on most chains.
+ * See https://github.com/Arachnid/deterministic-deployment-proxy
+ */
+export const SINGLETON_DEPLOYER = '0x4e59b44847b379578588920cA78FbF26c0B4956C'
+
+// a pre-signed transaction (without chainId) to deploy the singleton deployer
+const SINGLETON_DEPLOYER_SIGNER = '0x3fAB184622Dc19b6109349B94811493BF2a45362'
+const SINGLETON_DEPLOYER_TX =
+    '0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222'
+// gas limit 100000 by gas price 100 gwei
+const SINGLETON_DEPLOYER_COST = BigNumber.from(10).pow(16)
+
+const LOCAL_CHAIN_IDS = [31337, 1337]
+
+/**
+ * A salt for CREATE2: a 32-byte hex string is used as is, a number is padded
+ * to 32 bytes, and any other string is hashed.
+ */
+export type Create2Salt = string | number
+
+export function create2SaltOf(salt: Create2Salt): string {
+    if (typeof salt === 'number') {
+        return utils.hexZeroPad(BigNumber.from(salt).toHexString(), 32)
+    }
+    return utils.isHexString(salt, 32) ? salt : utils.id(salt)
+}
+
+/**
+ * Computes an address of a contract deployed by the singleton deployer.
+ *
+ * @param initCode creation bytecode with encoded constructor args
+ * @param salt of the deployment
+ */
+export function predictCreate2Address(
+    initCode: utils.BytesLike,
+    salt: Create2Salt
+): string {
+    return utils.getCreate2Address(
+        SINGLETON_DEPLOYER,
+        create2SaltOf(salt),
+        utils.keccak256(initCode)
+    )
+}
+
+/**
+ * Deploys the singleton deployer when it is missing on a local chain.
+ * The account of the pre-signed transaction is funded by the given signer.
+ *
+ * Throws an error when the deployer is missing on other chains.
+ *
+ * @param signer to fund the deployment
+ */
+export async function ensureSingletonDeployer(signer: Signer): Promise<void> {
+    const provider = _providerOf(signer)
+    if ((await provider.getCode(SINGLETON_DEPLOYER)) !== '0x') {
+        return
+    }
+    const chainId = await signer.getChainId()
+    if (!LOCAL_CHAIN_IDS.includes(chainId)) {
+        throw new Error(
+            `CREATE2 deployer ${SINGLETON_DEPLOYER} is missing on chain ${chainId}`
+        )
+    }
+
+    // transactions of the setup are not reported to observers, e.g. to a gas recorder
+    const balance = await provider.getBalance(SINGLETON_DEPLOYER_SIGNER)
+    if (balance.lt(SINGLETON_DEPLOYER_COST)) {
+        await successfulUnobservedTransaction(
+            signer.sendTransaction({
+                to: SINGLETON_DEPLOYER_SIGNER,
+                value: SINGLETON_DEPLOYER_COST.sub(balance)
+            })
+        )
+    }
+    await successfulUnobservedTransaction(
+        provider.sendTransaction(SINGLETON_DEPLOYER_TX)
+    )
+}
+
+/**
+ * Deploys a contract by the singleton deployer, unless it is already deployed.
+ * Observers of transactions receive the receipt with the address of the contract.
+ *
+ * @param signer to send the transaction
+ * @param initCode creation bytecode with encoded constructor args
+ * @param salt of the deployment
+ * @param overrides of the transaction to the deployer, e.g. a value for a payable constructor
+ * @return the address of the contract, and the receipt and the transaction when it was deployed by this call
+ */
+export async function deployCreate2(
+    signer: Signer,
+    initCode: utils.BytesLike,
+    salt: Create2Salt,
+    overrides?: Omit<providers.TransactionRequest, 'to' | 'data'>
+): Promise<
+    [string, providers.TransactionReceipt?, providers.TransactionResponse?]
+> {
+    const address = predictCreate2Address(initCode, salt)
+    if ((await _providerOf(signer).getCode(address)) !== '0x') {
+        return [address]
+    }
+    await ensureSingletonDeployer(signer)
+    const tx = await signer.sendTransaction({
+        ...overrides,
+        to: SINGLETON_DEPLOYER,
+        data: utils.hexConcat([create2SaltOf(salt), initCode])
+    })
+    const receipt = await successfulUnobservedTransaction(tx)
+    // observers receive it as a deployment of the contract, not as a call of the deployer
+    await notifyTransactionObservers({...receipt, contractAddress: address}, tx)
+    return [address, receipt, tx]
+}
+
+function _providerOf(signer: Signer): providers.Provider {
+    if (!signer.provider) {
+        throw new Error('Signer has no provider')
+    }
+    return signer.provider
+}
@@ -0,0 +1,330 @@
+import {BaseContract, Signer} from 'ethers'
+import {
+    ContractDeployFunction,
+    ContractName,
+    ContractTypeOf,
+    DeployArgsOf,
+    ImportedFactories,
+    Imports
+} from './contract-wrappers'
+import {isContractTransaction} from './revert'
+import {successfulTransaction} from './transaction'
+
+/**
+ * A step of a deployment plan, created by `step` of a planner.
+ */
+export interface PlanStep<C extends BaseContract = BaseContract> {
+    contract: string
+    deployArgs: unknown[]
+    deployWith?: ContractDeployFunction<Imports>
+    signer?: Signer
+    /* only carries the contract type, is never set */
+    readonly _contractType?: C
+}
+
+export interface PlanStepOptions<I extends Imports> {
+    /* a deploy function to be used instead of `deploy`, e.g. by `deployWithDelegate` */
+    deployWith?: ContractDeployFunction<I>
+    signer?: Signer
+}
+
+export type PlanSteps = Record<string, PlanStep>
+
+export type PlanContracts<P extends PlanSteps> = {
+    [K in keyof P]: P[K] extends PlanStep<infer C> ? C : never
+}
+
+/**
+ * A call to be made after all steps are deployed, e.g. to grant roles.
+ * When the call returns a transaction, then it is awaited to succeed.
+ */
+export type PlanCall<P extends PlanSteps> = (
+    contracts: PlanContracts<P>
+) => Promise<unknown>
+
+/**
+ * Steps and calls completed by a run of a plan.
+ */
+export interface DeploymentPlanProgress {
+    /* addresses of deployed steps */
+    deployed: Record<string, string>
+    /* number of completed calls */
+    completedCalls: number
+}
+
+export interface DeploymentPlanRunOptions {
+    /* progress of a failed run, completed steps and calls are not repeated */
+    resume?: DeploymentPlanProgress
+}
+
+export interface DeploymentPlan<P extends PlanSteps> {
+    /* names of steps in the order of deployment */
+    readonly order: string[]
+
+    /**
+     * Deploys steps in the order of dependencies, then makes the calls.
+     * Throws DeploymentPlanFailure with the progress to resume from.
+     *
+     * @return deployed contracts by names of steps
+     */
+    run(options?: DeploymentPlanRunOptions): Promise<PlanContracts<P>>
+}
+
+export interface DeploymentPlanner<I extends Imports> {
+    /**
+     * Declares a step of a plan.
+     *
+     * @param contract name of the contract type
+     * @param deployArgs args of deploy, can have values provided by `ref`
+     * @param options a deploy function and a signer of the step
+     */
+    step<N extends ContractName<I>>(
+        contract: N,
+        deployArgs: DeployArgsOf<I, N>,
+        options?: PlanStepOptions<I>
+    ): PlanStep<ContractTypeOf<I, N>>
+
+    /**
+     * Refers to a contract deployed by another step, e.g. `ref('Token').address`.
+     * Only properties of the contract can be referred, but not methods.
+     *
+     * @param step name of the step, which is also the contract type when the type isn't given
+     * @param contract name of the contract type of the step
+     */
+    ref<N extends ContractName<I>>(step: N): ContractTypeOf<I, N>
+    ref<N extends ContractName<I>>(
+        step: string,
+        contract: N
+    ): ContractTypeOf<I, N>
+
+    /**
+     * Creates a plan of the given steps.
+     * The order of deployment is resolved by references between steps.
+     *
+     * @param steps by names, a name is also used as an alias for a deployment store
+     * @param calls to be made after all steps are deployed
+     */
+    plan<P extends PlanSteps>(
+        steps: P,
+        calls?: PlanCall<P>[]
+    ): DeploymentPlan<P>
+}
+
+/**
+ * A failure of a deployment plan, its progress can be used to resume the plan.
+ */
+export class DeploymentPlanFailure extends Error {
+    readonly progress: DeploymentPlanProgress
+    readonly cause: unknown
+
+    constructor(progress: DeploymentPlanProgress, cause: unknown) {
+        super(
+            `Deployment plan has failed after ${
+                Object.keys(progress.deployed).length
+            } steps and ${progress.completedCalls} calls: ${String(cause)}`
+        )
+        this.name = 'DeploymentPlanFailure'
+        this.progress = progress
+        this.cause = cause
+    }
+}
+
+class PlanReference {
+    readonly step: string
+    readonly property: string
+
+    constructor(step: string, property: string) {
+        this.step = step
+        this.property = property
+    }
+}
+
+/**
+ * Creates typed helpers to declare and to run deployment plans.
+ *
+ * @param factories to deploy and to attach contracts
+ */
+export function deploymentPlanner<I extends Imports>(
+    factories: ImportedFactories<I>
+): DeploymentPlanner<I> {
+    const attach = factories.attach.bind(factories) as unknown as (
+        name: string,
+        address: string,
+        signer?: Signer
+    ) => BaseContract
+
+    return {
+        step<N extends ContractName<I>>(
+            contract: N,
+            deployArgs: DeployArgsOf<I, N>,
+            options?: PlanStepOptions<I>
+        ): PlanStep<ContractTypeOf<I, N>> {
+            return {
+                contract,
+                deployArgs: deployArgs as unknown[],
+                deployWith: options?.deployWith as
+                    | ContractDeployFunction<Imports>
+                    | undefined,
+                signer: options?.signer
+            }
+        },
+
+        ref<N extends ContractName<I>>(step: string): ContractTypeOf<I, N> {
+            return new Proxy(
+                {},
+                {
+                    get: (_, property) =>
+                        property === 'then'
+                            ? // eslint-disable-next-line no-undefined
+                              undefined
+                            : new PlanReference(step, String(property))
+                }
+            ) as ContractTypeOf<I, N>
+        },
+
+        plan<P extends PlanSteps>(
+            steps: P,
+            calls?: PlanCall<P>[]
+        ): DeploymentPlan<P> {
+            const order = _orderSteps(steps)
+            const deploy = factories.deploy.bind(
+                factories
+            ) as unknown as ContractDeployFunction<Imports>
+
+            return {
+                order,
+
+                async run(
+                    options?: DeploymentPlanRunOptions
+                ): Promise<PlanContracts<P>> {
+                    const progress: DeploymentPlanProgress = {
+                        deployed: {...options?.resume?.deployed},
+                        completedCalls: options?.resume?.completedCalls ?? 0
+                    }
+                    const contracts: Record<string, BaseContract> = {}
+                    try {
+                        for (const name of order) {
+                            const step = steps[name]
+                            const address = progress.deployed[name]
+                            if (address) {
+                                contracts[name] = attach(
+                                    step.contract,
+                                    address,
+                                    step.signer
+                                )
+                                // eslint-disable-next-line no-continue
+                                continue
+                            }
+                            const deployWith = step.deployWith ?? deploy
+                            const contract = (await deployWith(
+                                step.contract as ContractName<Imports>,
+                                _resolveReferences(
+                                    step.deployArgs,
+                                    contracts
+                                ) as never,
+                                {signer: step.signer, alias: name}
+                            )) as BaseContract
+                            contracts[name] = contract
+                            progress.deployed[name] = contract.address
+                        }
+
+                        const all = contracts as PlanContracts<P>
+                        const pending = (calls ?? []).slice(
+                            progress.completedCalls
+                        )
+                        for (const call of pending) {
+                            const result = await call(all)
+                            if (isContractTransaction(result)) {
+                                await successfulTransaction(result)
+                            }
+                            progress.completedCalls++
+                        }
+                        return all
+                    } catch (error: unknown) {
+                        throw new DeploymentPlanFailure(progress, error)
+                    }
+                }
+            }
+        }
+    }
+}
+
+/*
+ * Orders steps by references, dependencies go first,
+ * otherwise steps are kept in the declared order.
+ */
+function _orderSteps(steps: PlanSteps): string[] {
+    const order: string[] = []
+    const visiting: string[] = []
+
+    const visit = (name: string) => {
+        if (order.includes(name)) {
+            return
+        }
+        if (visiting.includes(name)) {
+            throw new Error(
+                `Cyclic references of steps: ${[
+                    ...visiting.slice(visiting.indexOf(name)),
+                    name
+                ].join(' -> ')}`
+            )
+        }
+        visiting.push(name)
+        for (const reference of _referencesOf(steps[name].deployArgs)) {
+            if (!(reference.step in steps)) {
+                throw new Error(
+                    `Step ${name} refers to an unknown step ${reference.step}`
+                )
+            }
+            visit(reference.step)
+        }
+        visiting.pop()
+        order.push(name)
+    }
+
+    Object.keys(steps).forEach((name) => visit(name))
+    return order
+}
+
+function _referencesOf(value: unknown): PlanReference[] {
+    if (value instanceof PlanReference) {
+        return [value]
+    }
+    if (_isTraversable(value)) {
+        return Object.values(value).flatMap(_referencesOf)
+    }
+    return []
+}
+
+function _resolveReferences(
+    value: unknown,
+    contracts: Record<string, BaseContract>
+): unknown {
+    if (value instanceof PlanReference) {
+        return (contracts[value.step] as unknown as Record<string, unknown>)[
+            value.property
+        ]
+    }
+    if (Array.isArray(value)) {
+        return value.map((v) => _resolveReferences(v, contracts))
+    }
+    if (_isTraversable(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([k, v]) => [
+                k,
+                _resolveReferences(v, contracts)
+            ])
+        )
+    }
+    return value
+}
+
+// only arrays and plain objects, e.g. structs and overrides, can have references
+function _isTraversable(value: unknown): value is object {
+    return (
+        Array.isArray(value) ||
+        (typeof value === 'object' &&
+            value !== null &&
+            Object.getPrototypeOf(value) === Object.prototype)
+    )
+}
@@ -0,0 +1,112 @@
+import {BigNumber, ContractFactory, utils} from 'ethers'
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs'
+import {dirname} from 'path'
+
+/**
+ * A contract deployed to a network, as recorded in a deployment manifest.
+ */
+export interface DeploymentRecord {
+    contractName: string
+    address: string
+    /* JSON form of deploy args, BigNumber and bigint are stored as decimal strings */
+    deployArgs: unknown[]
+    transactionHash: string
+    blockNumber: number
+    deployer: string
+    /* keccak256 of the creation bytecode of the factory */
+    bytecodeHash: string
+}
+
+/**
+ * Records of deployments by chainId and by contract name or alias.
+ */
+export type DeploymentManifest = Record<
+    string,
+    Record<string, DeploymentRecord | undefined> | undefined
+>
+
+/**
+ * A storage of deployment records, keyed by chainId and by contract name or alias.
+ */
+export interface DeploymentStore {
+    get(chainId: number, key: string): DeploymentRecord | undefined
+    set(chainId: number, key: string, record: DeploymentRecord): void
+}
+
+/**
+ * A deployment store kept as a JSON file. The file is read once on the first access,
+ * and is rewritten on every change. A missing file is created on the first change.
+ */
+export class JsonDeploymentStore implements DeploymentStore {
+    readonly path: string
+    private _manifest: DeploymentManifest | undefined
+
+    constructor(path: string) {
+        this.path = path
+    }
+
+    public get(chainId: number, key: string): DeploymentRecord | undefined {
+        return this._load()[String(chainId)]?.[key]
+    }
+
+    public set(chainId: number, key: string, record: DeploymentRecord): void {
+        const manifest = this._load()
+        const network = manifest[String(chainId)] ?? {}
+        network[key] = record
+        manifest[String(chainId)] = network
+        mkdirSync(dirname(this.path), {recursive: true})
+        writeFileSync(this.path, `${JSON.stringify(manifest, null, 2)}\n`)
+    }
+
+    private _load(): DeploymentManifest {
+        if (!this._manifest) {
+            this._manifest = existsSync(this.path)
+                ? (JSON.parse(
+                      readFileSync(this.path, 'utf8')
+                  ) as DeploymentManifest)
+                : {}
+        }
+        return this._manifest
+    }
+}
+
+/**
+ * Converts deploy args into the form stored by a manifest.
+ */
+export function deployArgsToJson(deployArgs: unknown[]): unknown[] {
+    return JSON.parse(
+        JSON.stringify(deployArgs, (_, value: unknown) => {
+            if (typeof value === 'bigint') {
+                return value.toString()
+            }
+            if (
+                typeof value === 'object' &&
+                value !== null &&
+                (value as {type?: unknown}).type === 'BigNumber'
+            ) {
+                // BigNumber is already converted by its toJSON()
+                return BigNumber.from(value).toString()
+            }
+            return value
+        })
+    ) as unknown[]
+}
+
+export function bytecodeHashOf(factory: ContractFactory): string {
+    return utils.keccak256(factory.bytecode)
+}
+
+/**
+ * Checks that the record was made by the same bytecode and deploy args.
+ */
+export function isSameDeployment(
+    record: DeploymentRecord,
+    bytecodeHash: string,
+    deployArgs: unknown[]
+): boolean {
+    return (
+        record.bytecodeHash === bytecodeHash &&
+        JSON.stringify(record.deployArgs) ===
+            JSON.stringify(deployArgsToJson(deployArgs))
+    )
+}
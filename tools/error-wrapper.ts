@@ -0,0 +1,131 @@
+import {expect} from 'chai'
+import {Contract, utils} from 'ethers'
+import {
+    _verifyByFragment,
+    _verifyByProperties,
+    PartialEventIn
+} from './event-wrapper'
+import {
+    decodeRevertData,
+    DecodedRevert,
+    formatRevert,
+    revertOutcomeOf,
+    revertSelectorOf
+} from './revert'
+import {RevertSource} from './transaction'
+
+export type ErrorFactoryWithTuple<
+    A extends unknown[],
+    O extends object
+> = ErrorFactoryOmni<A, O, A & O>
+
+export interface ErrorFactory<A extends unknown[], O extends object>
+    extends ErrorFactoryOmni<A, O, O> {
+    readonly withTuple: ErrorFactoryWithTuple<A, O>
+}
+
+export interface ErrorFactoryOmni<
+    A extends unknown[],
+    O extends object,
+    R extends O
+> {
+    /**
+     * Awaits the given source and expects it to be reverted with this error.
+     * Builtin `Error(string)` and `Panic(uint256)` are handled by names `Error` and `Panic`.
+     *
+     * When a transaction was mined with a failure, it is replayed by the provider
+     * of the emitter to get revert data.
+     *
+     * Throws an error when:
+     * - the source has not been reverted
+     * - revert data is not available or belongs to a different error
+     * - decoded arguments do not match the expected ones
+     *
+     * @param source a call, a transaction or a receipt expected to be reverted
+     * @param expected partial arguments of the error to match
+     * @return decoded arguments of the error
+     */
+    expectRevert(
+        source: RevertSource,
+        expected?: PartialEventIn<A, O>
+    ): Promise<R>
+
+    toString(): string
+    name(): string
+    selector(): string
+}
+
+export const wrapErrorType = <A extends unknown[], O extends object>(
+    customName: string,
+    emitter: Contract
+): ErrorFactory<A, O> =>
+    new (class implements ErrorFactory<A, O> {
+        withTuple = this as unknown as ErrorFactoryWithTuple<A, O>
+
+        async expectRevert(
+            source: RevertSource,
+            expected?: PartialEventIn<A, O>
+        ): Promise<O> {
+            const n = this.toString()
+            const outcome = await revertOutcomeOf(source, emitter.provider)
+
+            expect(
+                outcome.reverted,
+                `Expected revert with ${n}, but it has succeeded`
+            ).is.true
+            expect(
+                outcome.data,
+                `Expected revert with ${n}, but revert data is not available`
+            ).is.not.undefined
+
+            const data = outcome.data ?? '0x'
+            const decoded = decodeRevertData(data, emitter.interface)
+            if (
+                // eslint-disable-next-line no-undefined
+                decoded === undefined ||
+                utils.hexDataSlice(data, 0, 4) !== this.selector()
+            ) {
+                expect.fail(
+                    `Expected revert with ${n}, but got ${_describeRevert(
+                        data,
+                        decoded
+                    )}`
+                )
+            }
+
+            return this.verifyArgs(decoded, expected)
+        }
+
+        toString(): string {
+            return this.name()
+        }
+
+        name(): string {
+            return customName
+        }
+
+        selector(): string {
+            return revertSelectorOf(this.toString(), emitter.interface)
+        }
+
+        private verifyArgs(
+            decoded: DecodedRevert,
+            expected?: PartialEventIn<A, O>
+        ): O {
+            const n = this.toString()
+            if ((expected ?? null) !== null) {
+                _verifyByProperties(expected, n, decoded.args, decoded.fragment)
+            }
+            _verifyByFragment(decoded.fragment, n, decoded.args)
+            return decoded.args as unknown as O
+        }
+    })()
+
+const _describeRevert = (data: string, decoded?: DecodedRevert): string => {
+    if (decoded) {
+        return formatRevert(decoded)
+    }
+    return utils.hexDataLength(data) === 0
+        ? 'revert without data'
+        : `unknown revert data ${data}`
+}
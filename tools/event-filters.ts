@@ -2,13 +2,18 @@ import {ContractReceipt, utils} from 'ethers'
 import {Log} from '@ethersproject/abstract-provider'
 import {expect} from 'chai'
 import {TypedEvent, TypedEventFilter} from './event-types'
+import {describeValue, isValueMatcher, matchValue} from './value-matchers'
 
 export type EventDataDecoder = (log: Log) => utils.Result
 
 export interface ExtendedEventFilter<T = object>
     extends TypedEventFilter<TypedEvent<unknown[], T>> {
+    /* values to be matched after decoding: non-indexed ones and matchers */
     nonIndexed?: unknown[]
     decodeEventData: EventDataDecoder
+    /* used to describe mismatches */
+    fragment?: utils.EventFragment
+    indexed?: unknown[]
 }
 
 function decodeEventLogs(
@@ -143,6 +148,191 @@ export function expectEmittersAndEvents<T extends ExtendedEventFilter[]>(
     return [emitters, result as UnwrapEventFilters<T>]
 }
 
+/**
+ * Parses logs of the receipt by the given filters regardless of the order of events.
+ * Each filter is assigned to a distinct log entry, and the assignment is
+ * searched over all combinations, so a loose filter can't take a log entry
+ * required by a strict filter.
+ *
+ * Throws an error when not all filters can be assigned to distinct log entries.
+ *
+ * @param receipt to provide logs for parsing
+ * @param filters a set of filters to match and parse log entries
+ * @return a set of parsed log entries, in the order of the filters
+ */
+export function expectUnorderedEvents<T extends ExtendedEventFilter[]>(
+    receipt: ContractReceipt,
+    ...filters: T
+): UnwrapEventFilters<T> {
+    return _unorderedFilter(
+        receipt.logs,
+        filters,
+        false
+    ) as UnwrapEventFilters<T>
+}
+
+/**
+ * Same as `expectUnorderedEvents`, but also expects that there are no other
+ * log entries from emitters of the filters. When any of the filters has no emitter,
+ * then all log entries are considered.
+ *
+ * @param receipt to provide logs for parsing
+ * @param filters a set of filters to match and parse log entries
+ * @return a set of parsed log entries, in the order of the filters
+ */
+export function expectExactUnorderedEvents<T extends ExtendedEventFilter[]>(
+    receipt: ContractReceipt,
+    ...filters: T
+): UnwrapEventFilters<T> {
+    return _unorderedFilter(
+        receipt.logs,
+        filters,
+        true
+    ) as UnwrapEventFilters<T>
+}
+
+/*
+ * Maximum bipartite matching of filters to logs (Kuhn's algorithm).
+ * Lower log indices are preferred to keep results stable.
+ */
+function _unorderedFilter(
+    actuals: Array<Log>,
+    expecteds: ExtendedEventFilter[],
+    exact: boolean
+): utils.Result[] {
+    const decoded: Array<Array<utils.Result | undefined>> = expecteds.map(
+        (expected) => actuals.map((actual) => matchEventLog(actual, expected))
+    )
+    const assignedFilter = new Array<number>(actuals.length).fill(-1)
+
+    const tryAssign = (i: number, visited: boolean[]): boolean => {
+        for (let j = 0; j < actuals.length; j++) {
+            if (decoded[i][j] && !visited[j]) {
+                visited[j] = true
+                if (
+                    assignedFilter[j] < 0 ||
+                    tryAssign(assignedFilter[j], visited)
+                ) {
+                    assignedFilter[j] = i
+                    return true
+                }
+            }
+        }
+        return false
+    }
+
+    const unmatched: number[] = []
+    for (let i = 0; i < expecteds.length; i++) {
+        if (!tryAssign(i, new Array<boolean>(actuals.length).fill(false))) {
+            unmatched.push(i)
+        }
+    }
+    if (unmatched.length > 0) {
+        expect.fail(
+            _describeUnmatched(actuals, expecteds, unmatched, assignedFilter)
+        )
+    }
+
+    if (exact) {
+        const emitters = new Set<string>()
+        let anyEmitter = false
+        for (const expected of expecteds) {
+            if (expected.address) {
+                emitters.add(expected.address.toUpperCase())
+            } else {
+                anyEmitter = true
+            }
+        }
+        const extra = actuals
+            .map((actual, j) => ({actual, j}))
+            .filter(
+                ({actual, j}) =>
+                    assignedFilter[j] < 0 &&
+                    (anyEmitter || emitters.has(actual.address.toUpperCase()))
+            )
+            .map(({j}) => j)
+        expect(
+            extra,
+            `Unexpected events were found at log indices: ${extra.join(', ')}`
+        ).is.empty
+    }
+
+    const result = new Array<utils.Result>(expecteds.length)
+    assignedFilter.forEach((i, j) => {
+        const value = i >= 0 ? decoded[i][j] : null
+        if (value) {
+            result[i] = value
+        }
+    })
+    return result
+}
+
+/**
+ * Parses logs of the receipt by any of the given filters.
+ * Unlike `expectEvents` it doesn't throw when nothing is found.
+ * Each log entry is matched at most once, by the first matching filter.
+ *
+ * @param receipt to provide logs for parsing
+ * @param filters a set of filters to match and parse log entries
+ * @return parsed log entries matched by any of the filters, in the order of logs
+ */
+export function findEvents<T extends ExtendedEventFilter[]>(
+    receipt: ContractReceipt,
+    ...filters: T
+): UnwrapEventFilter<T[number]>[] {
+    return _anyFilter(receipt.logs, filters) as UnwrapEventFilter<T[number]>[]
+}
+
+/**
+ * Expects that no log entry of the receipt is matched by any of the given filters.
+ *
+ * @param receipt to provide logs for parsing
+ * @param filters a set of filters which must not match
+ */
+export function expectNoEvents(
+    receipt: ContractReceipt,
+    ...filters: ExtendedEventFilter[]
+): void {
+    const found = _anyFilter(receipt.logs, filters)
+    expect(found.length, 'Unexpected events were found').eq(0)
+}
+
+/**
+ * Expects that the exact number of log entries of the receipt is matched
+ * by any of the given filters.
+ *
+ * @param receipt to provide logs for parsing
+ * @param count of log entries to be matched
+ * @param filters a set of filters to match and parse log entries
+ * @return parsed log entries matched by any of the filters, in the order of logs
+ */
+export function expectEventCount<T extends ExtendedEventFilter[]>(
+    receipt: ContractReceipt,
+    count: number,
+    ...filters: T
+): UnwrapEventFilter<T[number]>[] {
+    const found = _anyFilter(receipt.logs, filters)
+    expect(found.length, 'Unexpected number of events').eq(count)
+    return found as UnwrapEventFilter<T[number]>[]
+}
+
+function _anyFilter(
+    actuals: Array<Log>,
+    expecteds: ExtendedEventFilter[]
+): utils.Result[] {
+    const result: utils.Result[] = []
+    for (const actual of actuals) {
+        for (const expected of expecteds) {
+            const decoded = matchEventLog(actual, expected)
+            if (decoded) {
+                result.push(decoded)
+                break
+            }
+        }
+    }
+    return result
+}
+
 function _orderedFilter(
     actuals: Array<Log>,
     expecteds: ExtendedEventFilter[],
@@ -150,46 +340,166 @@ function _orderedFilter(
 ): [string[], utils.Result[]] {
     const result: utils.Result[] = []
     const resultAddr: string[] = []
-    const matched: boolean[] = new Array<boolean>(actuals.length)
+    const matchedBy = new Array<number>(actuals.length).fill(-1)
+    const unmatched: number[] = []
     let prevActualIndex = -1
 
     for (let i = 0; i < expecteds.length; i++) {
+        let found = false
         for (
             let j = forwardOnly ? prevActualIndex + 1 : 0;
             j < actuals.length;
             j++
         ) {
-            if (matched[j]) {
+            if (matchedBy[j] >= 0) {
                 // eslint-disable-next-line no-continue
                 continue
             }
             const actual = actuals[j]
-            const expected = expecteds[i]
-            if (_matchTopics(actual, expected)) {
-                const decoded = expected.decodeEventData(actual)
-                if (
-                    // eslint-disable-next-line no-undefined
-                    expected.nonIndexed === undefined ||
-                    _matchProperties(decoded, expected.nonIndexed)
-                ) {
-                    expect(j, 'Wrong order of events').gt(prevActualIndex)
-                    prevActualIndex = j
-                    matched[j] = true
-                    result.push(decoded)
-                    resultAddr.push(actual.address)
-                    break
-                }
+            const decoded = matchEventLog(actual, expecteds[i])
+            if (decoded) {
+                expect(j, 'Wrong order of events').gt(prevActualIndex)
+                prevActualIndex = j
+                matchedBy[j] = i
+                result.push(decoded)
+                resultAddr.push(actual.address)
+                found = true
+                break
             }
         }
+        if (!found) {
+            unmatched.push(i)
+        }
     }
 
-    expect(result.length, 'Not all expected events were found').eq(
-        expecteds.length
-    )
+    if (unmatched.length > 0) {
+        expect.fail(
+            _describeUnmatched(actuals, expecteds, unmatched, matchedBy)
+        )
+    }
 
     return [resultAddr, result]
 }
 
+/*
+ * Describes unmatched filters with a field-by-field diff against
+ * log entries of the same type and emitter.
+ */
+function _describeUnmatched(
+    actuals: Array<Log>,
+    expecteds: ExtendedEventFilter[],
+    unmatched: number[],
+    matchedBy: number[]
+): string {
+    const lines = ['Not all expected events were found']
+    for (const i of unmatched) {
+        const expected = expecteds[i]
+        const name = expected.fragment?.name ?? 'event'
+        const emitter = expected.address ? ` from ${expected.address}` : ''
+        lines.push(`filter #${i} (${name}${emitter}) has no match`)
+
+        let candidates = 0
+        actuals.forEach((actual, j) => {
+            if (
+                actual.topics[0] !== expected.topics?.[0] ||
+                (expected.address &&
+                    actual.address.toUpperCase() !==
+                        expected.address.toUpperCase())
+            ) {
+                return
+            }
+            candidates++
+            const diff = _diffLog(actual, expected)
+            let details = diff.join('; ')
+            if (matchedBy[j] >= 0) {
+                details = `taken by filter #${matchedBy[j]}${
+                    diff.length > 0 ? `; ${details}` : ''
+                }`
+            } else if (diff.length === 0) {
+                details = 'matches, but is out of order'
+            }
+            lines.push(
+                `    log #${actual.logIndex ?? j} from ${
+                    actual.address
+                }: ${details}`
+            )
+        })
+        if (candidates === 0) {
+            lines.push(`    no ${name} events${emitter}`)
+        }
+    }
+    return lines.join('\n')
+}
+
+function _diffLog(actual: Log, expected: ExtendedEventFilter): string[] {
+    const fragment = expected.fragment
+    if (!fragment) {
+        return ['mismatched values']
+    }
+    let decoded: utils.Result
+    try {
+        decoded = expected.decodeEventData(actual)
+    } catch {
+        return ['can not be decoded']
+    }
+
+    const diff: string[] = []
+    let topicIndex = 0
+    fragment.inputs.forEach((param, index) => {
+        const label = param.name || `[${index}]`
+        if (param.indexed) {
+            topicIndex++
+            const expectedTopic = expected.topics?.[topicIndex] ?? null
+            const actualTopic = actual.topics[topicIndex]
+            if (
+                expectedTopic !== null &&
+                (Array.isArray(expectedTopic)
+                    ? !expectedTopic.includes(actualTopic)
+                    : expectedTopic !== actualTopic)
+            ) {
+                diff.push(
+                    `${label}: expected ${describeValue(
+                        expected.indexed?.[index]
+                    )}, actual ${describeValue(decoded[index])}`
+                )
+            }
+        }
+        const value = expected.nonIndexed?.[index] ?? null
+        if (value !== null && !matchValue(value, decoded[index], param)) {
+            diff.push(
+                `${label}: expected ${describeValue(
+                    value
+                )}, actual ${describeValue(decoded[index])}`
+            )
+        }
+    })
+    return diff
+}
+
+/**
+ * Matches a log entry by the given filter, including non-indexed properties.
+ *
+ * @param log to be matched
+ * @param filter to match and decode the log entry
+ * @return the decoded log entry or undefined when the entry doesn't match
+ */
+export function matchEventLog<T>(
+    log: Log,
+    filter: ExtendedEventFilter<T>
+): utils.Result | undefined {
+    if (!_matchTopics(log, filter)) {
+        return
+    }
+    const decoded = filter.decodeEventData(log)
+    if (
+        // eslint-disable-next-line no-undefined
+        filter.nonIndexed === undefined ||
+        _matchProperties(decoded, filter.nonIndexed, filter.fragment)
+    ) {
+        return decoded
+    }
+}
+
 function _matchTopics(actual: Log, expected: ExtendedEventFilter): boolean {
     if (
         // eslint-disable-next-line no-undefined
@@ -213,60 +523,19 @@ function _matchTopics(actual: Log, expected: ExtendedEventFilter): boolean {
     return true
 }
 
-function _matchProperties(actual: utils.Result, expected: unknown[]): boolean {
+function _matchProperties(
+    actual: utils.Result,
+    expected: unknown[],
+    fragment?: utils.EventFragment
+): boolean {
     return !expected.some((value, index) => {
         if ((value ?? null) === null) {
             return false
         }
-        const eq = isDeepEqual(value, actual[index])
-        return !eq
+        return !matchValue(value, actual[index], fragment?.inputs[index])
     })
 }
 
-function isDeepEqual(v0: unknown, v1: unknown): boolean {
-    if (typeof v0 !== typeof v1) {
-        return false
-    }
-    if (typeof v0 !== 'object') {
-        return v0 === v1
-    }
-    if (Array.isArray(v0)) {
-        if (!Array.isArray(v1)) {
-            return false
-        }
-        const a0 = v0 as unknown[]
-        const a1 = v1 as unknown[]
-        return (
-            a0.length === a1.length &&
-            !a0.some((value, i) => !isDeepEqual(value, a1[i]))
-        )
-    }
-
-    const k0 = Object.getOwnPropertyNames(v0)
-    const k1 = Object.getOwnPropertyNames(v1 as object)
-
-    if (k0.length !== k1.length) {
-        return false
-    }
-    const s1 = new Set(k1)
-    for (const key of k0) {
-        if (!s1.has(key)) {
-            return false
-        }
-
-        if (
-            !isDeepEqual(
-                (v0 as Record<string, unknown>)[key],
-                (v1 as Record<string, unknown>)[key]
-            )
-        ) {
-            return false
-        }
-    }
-
-    return true
-}
-
 export function newExtendedEventFilter<T>(
     eventName: string,
     emitter: string,
@@ -286,6 +555,8 @@ export function newExtendedEventFilter<T>(
         address,
         topics: decoder.encodeFilterTopics(fragment, args),
         nonIndexed: nonIndexed,
+        fragment,
+        indexed: args,
         decodeEventData(log: Log): utils.Result {
             return decoder.decodeEventLog(fragment, log.data, log.topics)
         }
@@ -343,10 +614,19 @@ const _buildFilterArgs = (
                 }
             }
 
-            if (param.indexed) {
+            if (
+                param.indexed &&
+                !isValueMatcher(value) &&
+                param.baseType !== 'array' &&
+                param.baseType !== 'tuple'
+            ) {
                 indexed.push(value)
                 nonIndexed.push(null)
             } else {
+                /*
+                 * matchers, arrays and structs can't be encoded into topics,
+                 * so are matched after decoding, by hash for indexed ones
+                 */
                 indexed.push(null)
                 nonIndexed.push(value)
                 if (value !== null) {
@@ -8,12 +8,35 @@ export interface EventConverter<T> {
     (parameters: Event): T
 }
 
+/**
+ * Whether the received event is the awaited one.
+ */
+export interface EventPredicate<T> {
+    (event: T, index: number): boolean
+}
+
+export interface EventWaitOptions {
+    /* number of matching events to await, 1 by default */
+    count?: number
+    /* most amount of time to await the events, unlimited when undefined */
+    timeoutMs?: number
+}
+
+const activeListeners = new Set<EventListener<unknown>>()
+
 /**
  * Listeners for a single type of contract event.
  */
-export class EventListener<T> {
+export class EventListener<T> implements AsyncIterable<T> {
     _events: T[] = []
 
+    private _error: unknown
+    private _stopped = false
+    private readonly _contract: BaseContract
+    private readonly _eventName: string
+    private readonly _handler: (...args: Array<unknown>) => void
+    private _wakeUps: Array<() => void> = []
+
     constructor(
         contract: BaseContract,
         eventName: string,
@@ -21,43 +44,242 @@ export class EventListener<T> {
         afterBlock?: number
     ) {
         const blockNumber = afterBlock ?? -1
-        captureEvents(contract, eventName, (event) => {
-            if (event.blockNumber > blockNumber) {
-                this._events.push(convert(event))
+        this._contract = contract
+        this._eventName = eventName
+        this._handler = captureEvents(
+            contract,
+            eventName,
+            (event) => {
+                if (!this._stopped && event.blockNumber > blockNumber) {
+                    this._events.push(convert(event))
+                    this._wakeUp()
+                }
+            },
+            (error) => {
+                this._fail(error)
+                this._wakeUp()
             }
-        })
+        )
+        activeListeners.add(this)
     }
 
+    /**
+     * Returns events received so far.
+     * Throws an error when a received event has failed the conversion.
+     */
     public events(): T[] {
+        this._throwIfFailed()
         return this._events
     }
+
+    /**
+     * Returns an error of conversion of a received event, if any.
+     * The listener stops receiving events after such an error.
+     */
+    public error(): unknown {
+        return this._error
+    }
+
+    public isStopped(): boolean {
+        return this._stopped
+    }
+
+    /**
+     * Unsubscribes from the contract. Received events remain available,
+     * pending waits are rejected and iterations are completed.
+     */
+    public stop(): void {
+        if (this._stopped) {
+            return
+        }
+        this._stopped = true
+        this._contract.off(this._eventName, this._handler)
+        activeListeners.delete(this)
+        this._wakeUp()
+    }
+
+    /**
+     * Stops the listener with an error, e.g. when the chain state was reverted,
+     * so received events are no longer valid. Pending waits are rejected with the error.
+     */
+    public invalidate(reason: string): void {
+        this._fail(
+            new Error(`Listener for ${this._eventName} is invalid: ${reason}`)
+        )
+        this._wakeUp()
+    }
+
+    /**
+     * Same as `stop`.
+     */
+    public dispose(): void {
+        this.stop()
+    }
+
+    /**
+     * Awaits events matching the predicate, including events received before the call.
+     *
+     * Throws an error when:
+     * - the timeout has expired
+     * - the listener was stopped before the events were received
+     * - a received event has failed the conversion
+     *
+     * @param predicate to match events, all events are matched when undefined
+     * @param options a number of events to await and a timeout
+     * @return the matched events
+     */
+    public async waitFor(
+        predicate?: EventPredicate<T>,
+        options?: EventWaitOptions
+    ): Promise<T[]> {
+        const count = options?.count ?? 1
+        const deadline =
+            // eslint-disable-next-line no-undefined
+            options?.timeoutMs === undefined
+                ? Infinity
+                : Date.now() + options.timeoutMs
+
+        const matched: T[] = []
+        let index = 0
+        for (;;) {
+            this._throwIfFailed()
+            for (; index < this._events.length; index++) {
+                const event = this._events[index]
+                if (!predicate || predicate(event, index)) {
+                    matched.push(event)
+                    if (matched.length >= count) {
+                        return matched
+                    }
+                }
+            }
+            if (this._stopped) {
+                throw new Error(
+                    `Listener for ${this._eventName} was stopped after ${matched.length} of ${count} events`
+                )
+            }
+            if (!(await this._waitForWakeUp(deadline))) {
+                throw new Error(
+                    `Timeout waiting for ${this._eventName}: received ${matched.length} of ${count} events`
+                )
+            }
+        }
+    }
+
+    /**
+     * Iterates over received events, including events received before the call.
+     * The iteration completes when the listener is stopped.
+     */
+    public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+        let index = 0
+        for (;;) {
+            this._throwIfFailed()
+            while (index < this._events.length) {
+                yield this._events[index++]
+            }
+            if (this._stopped) {
+                return
+            }
+            await this._waitForWakeUp(Infinity)
+        }
+    }
+
+    private _fail(error: unknown): void {
+        if (!this._stopped) {
+            this._error = error
+            this._stopped = true
+            this._contract.off(this._eventName, this._handler)
+            activeListeners.delete(this)
+        }
+    }
+
+    private _throwIfFailed(): void {
+        // eslint-disable-next-line no-undefined
+        if (this._error !== undefined) {
+            throw this._error
+        }
+    }
+
+    private _wakeUp(): void {
+        const wakeUps = this._wakeUps
+        this._wakeUps = []
+        wakeUps.forEach((fn) => fn())
+    }
+
+    /*
+     * Returns false when the deadline has expired before anything has happened.
+     */
+    private _waitForWakeUp(deadline: number): Promise<boolean> {
+        return new Promise((resolve) => {
+            let timer: NodeJS.Timeout | undefined
+            if (deadline !== Infinity) {
+                timer = setTimeout(() => {
+                    this._wakeUps = this._wakeUps.filter((fn) => fn !== wakeUp)
+                    resolve(false)
+                }, Math.max(deadline - Date.now(), 0))
+            }
+            const wakeUp = () => {
+                clearTimeout(timer)
+                resolve(true)
+            }
+            this._wakeUps.push(wakeUp)
+        })
+    }
+}
+
+/**
+ * Invalidates all listeners which are not stopped yet.
+ *
+ * @param reason to be reported by the listeners
+ */
+export function invalidateEventListeners(reason: string): void {
+    for (const listener of [...activeListeners]) {
+        listener.invalidate(reason)
+    }
 }
 
 interface EventReceived {
     (parameters: Event): void
 }
 
+interface EventFailed {
+    (error: unknown): void
+}
+
+/*
+ * Errors thrown inside of a provider callback are not propagated to the caller,
+ * so they are passed to the given handler.
+ */
 function captureEvents(
     contract: Contract,
     eventName: string,
-    react: EventReceived
-): void {
-    contract.on(eventName, (...args: Array<unknown>) => {
-        expect(
-            args.length,
-            'The event details are missing'
-        ).is.greaterThanOrEqual(1)
-
-        /*
-         * Array is organised with each parameter being an entry,
-         * last entry being the entire transaction receipt.
-         */
-        const lastEntry = args.length - 1
-        const event = args[lastEntry] as Event
-
-        expect(event.blockNumber, 'The event should have a block number').is.not
-            .undefined
-
-        react(event)
-    })
+    react: EventReceived,
+    fail: EventFailed
+): (...args: Array<unknown>) => void {
+    const handler = (...args: Array<unknown>) => {
+        try {
+            handleEvent(args, react)
+        } catch (error: unknown) {
+            fail(error)
+        }
+    }
+    contract.on(eventName, handler)
+    return handler
+}
+
+function handleEvent(args: Array<unknown>, react: EventReceived): void {
+    expect(args.length, 'The event details are missing').is.greaterThanOrEqual(
+        1
+    )
+
+    /*
+     * Array is organised with each parameter being an entry,
+     * last entry being the entire transaction receipt.
+     */
+    const lastEntry = args.length - 1
+    const event = args[lastEntry] as Event
+
+    expect(event.blockNumber, 'The event should have a block number').is.not
+        .undefined
+
+    react(event)
 }
@@ -0,0 +1,116 @@
+import {providers} from 'ethers'
+import {Log} from '@ethersproject/abstract-provider'
+
+const DEFAULT_CHUNK_SIZE = 10000
+
+export interface BlockRangeQuery {
+    /* first block to query, 0 by default */
+    fromBlock?: number
+    /* last block to query, the latest block by default */
+    toBlock?: number | 'latest'
+    /* initial and maximal number of blocks per a request */
+    chunkSize?: number
+}
+
+/**
+ * Queries logs by chunks of blocks.
+ * When a provider reports a limit of results or of a block range, then
+ * the chunk is split and the query is repeated. After successful queries
+ * the chunk size grows back up to the initial one.
+ *
+ * @param provider to query logs
+ * @param filter of logs, block range of the filter is ignored
+ * @param query the block range and the chunk size
+ * @return a generator of logs per a chunk of blocks
+ */
+export async function* queryLogsInChunks(
+    provider: providers.Provider,
+    filter: providers.Filter,
+    query?: BlockRangeQuery
+): AsyncGenerator<Log[]> {
+    const maxChunkSize = Math.max(query?.chunkSize ?? DEFAULT_CHUNK_SIZE, 1)
+    const toBlock =
+        typeof query?.toBlock === 'number'
+            ? query.toBlock
+            : await provider.getBlockNumber()
+
+    let chunkSize = maxChunkSize
+    let fromBlock = query?.fromBlock ?? 0
+    while (fromBlock <= toBlock) {
+        const chunkEnd = Math.min(fromBlock + chunkSize - 1, toBlock)
+        let logs: Log[]
+        try {
+            logs = await provider.getLogs({
+                address: filter.address,
+                topics: filter.topics,
+                fromBlock,
+                toBlock: chunkEnd
+            })
+        } catch (error: unknown) {
+            if (chunkEnd === fromBlock || !_isLimitError(error)) {
+                throw error
+            }
+            // the chunk can be clipped by the last block, so the queried span is reduced
+            const span = chunkEnd - fromBlock + 1
+            const suggested = _suggestedRangeOf(error)
+            chunkSize =
+                suggested &&
+                suggested[0] === fromBlock &&
+                suggested[1] >= fromBlock
+                    ? Math.min(suggested[1] - fromBlock + 1, span - 1)
+                    : Math.ceil(span / 2)
+            // eslint-disable-next-line no-continue
+            continue
+        }
+
+        yield logs
+        fromBlock = chunkEnd + 1
+        chunkSize = Math.min(chunkSize * 2, maxChunkSize)
+    }
+}
+
+const LIMIT_ERROR_PATTERNS = [
+    /more than \d+ results/i,
+    /query returned more than/i,
+    /response size/i,
+    /too many (results|blocks|logs)/i,
+    /(?<!rate )limit exceeded/i,
+    /block range (is )?too (large|wide|big)/i,
+    /up to a \d+\w* block range/i,
+    /limited to a [\d,]+ (block )?range/i,
+    /range is too (large|wide)/i,
+    /exceed.* max(imum)? (block|range|results)/i
+]
+
+/*
+ * Providers report limits differently, so the error is checked by messages known for
+ * Infura, Alchemy, QuickNode and geth-based nodes, including nested errors.
+ */
+function _isLimitError(error: unknown): boolean {
+    return _errorMessagesOf(error).some((message) =>
+        LIMIT_ERROR_PATTERNS.some((pattern) => pattern.test(message))
+    )
+}
+
+function _suggestedRangeOf(error: unknown): [number, number] | undefined {
+    for (const message of _errorMessagesOf(error)) {
+        const found = /\[(0x[0-9a-f]+),\s*(0x[0-9a-f]+)\]/i.exec(message)
+        if (found) {
+            return [parseInt(found[1], 16), parseInt(found[2], 16)]
+        }
+    }
+}
+
+function _errorMessagesOf(error: unknown, depth = 0): string[] {
+    if (depth > 5 || typeof error !== 'object' || error === null) {
+        return []
+    }
+    const e = error as Record<string, unknown>
+    const messages: string[] = []
+    for (const key of ['message', 'reason', 'body']) {
+        if (typeof e[key] === 'string') {
+            messages.push(e[key] as string)
+        }
+    }
+    return messages.concat(_errorMessagesOf(e.error, depth + 1))
+}
@@ -2,11 +2,23 @@ import {expect} from 'chai'
 import {Contract, ContractReceipt, utils} from 'ethers'
 import {
     expectEmittersAndEvents,
+    expectEventCount,
+    expectNoEvents,
     ExtendedEventFilter,
+    findEvents,
+    matchEventLog,
     newExtendedEventFilter
 } from './event-filters'
 import {EventListener} from './event-listener'
+import {BlockRangeQuery, queryLogsInChunks} from './event-query'
 import {ContractReceiptSource, successfulTransaction} from './transaction'
+import {
+    describeValue,
+    isValueMatcher,
+    Matchable,
+    MatchableFields,
+    matchValue
+} from './value-matchers'
 
 function findEventArgs(
     name: string,
@@ -40,19 +52,36 @@ function findEventArgs(
     return found
 }
 
-type PartialTuple<T extends unknown[]> = T extends [infer Head, ...infer Tail]
-    ? [(Head | null)?, ...PartialTuple<Tail>]
+export type PartialTuple<T extends unknown[]> = T extends [
+    infer Head,
+    ...infer Tail
+]
+    ? [(Matchable<Head> | null)?, ...PartialTuple<Tail>]
     : []
 
-type EventIn<A extends unknown[], O extends object> =
-    | (PartialTuple<A> & O)
-    | A
-    | O
+export type MatchableTuple<T extends unknown[]> = {
+    [K in keyof T]: Matchable<T[K]>
+}
+
+export type MatchableObject<T extends object> = {
+    [K in keyof T]: Matchable<T[K]>
+}
+
+export type EventIn<A extends unknown[], O extends object> =
+    | (PartialTuple<A> & MatchableObject<O>)
+    | MatchableTuple<A>
+    | MatchableObject<O>
 
-type PartialEventIn<A extends unknown[], O extends object> =
-    | (PartialTuple<A> & Partial<O>)
+export type PartialEventIn<A extends unknown[], O extends object> =
+    | (PartialTuple<A> & MatchableFields<O>)
     | PartialTuple<A>
-    | Partial<O>
+    | MatchableFields<O>
+
+export interface EventQuery<A extends unknown[], O extends object>
+    extends BlockRangeQuery {
+    filter?: PartialEventIn<A, O>
+    emitterAddress?: string | '*'
+}
 
 export type EventFactoryWithTuple<
     A extends unknown[],
@@ -69,6 +98,15 @@ export interface EventFactoryOmni<
     O extends object,
     R extends O
 > {
+    /**
+     * Expects a single event of this type and emitter, and checks its arguments.
+     * Indexed arguments of dynamic types are checked by hash, and the returned
+     * entry has the given plain values instead of Indexed.
+     *
+     * @param receipt to provide logs for parsing
+     * @param expected values or matchers of the event arguments
+     * @return the parsed log entry
+     */
     expectOne(receipt: ContractReceipt, expected?: EventIn<A, O>): R
 
     /**
@@ -83,7 +121,8 @@ export interface EventFactoryOmni<
      * NB! This function have a special handling for `indexed` event arguments
      * of dynamic types (`string`, `bytes`, `arrays`) - these types can be used
      * for filtering, but decoded fields will not have values, but special
-     * Indexed objects with hash.
+     * Indexed objects with hash. When a plain value of such argument is given
+     * by a filter, then the returned entry has this value instead of Indexed.
      *
      * Throws an error when:
      * - a filter N matches a log entry with lower index than a filter N-1
@@ -105,11 +144,60 @@ export interface EventFactoryOmni<
         fn?: (args: R[]) => Result
     ): Result
 
+    /**
+     * Finds all events of this type and emitter, same as `all`,
+     * but returns an empty array when nothing is found.
+     *
+     * @param receipt to provide logs for parsing
+     * @return parsed log entries
+     */
+    tryAll(receipt: ContractReceipt): R[]
+
+    /**
+     * Expects no events of this type and emitter matched by the filter.
+     *
+     * @param receipt to provide logs for parsing
+     * @param expected partial filter, any event of this type is matched when undefined
+     */
+    expectNone(receipt: ContractReceipt, expected?: PartialEventIn<A, O>): void
+
+    /**
+     * Expects the exact number of events of this type and emitter matched by the filter.
+     *
+     * @param receipt to provide logs for parsing
+     * @param count of events to be matched
+     * @param expected partial filter, any event of this type is matched when undefined
+     * @return parsed log entries matched by the filter
+     */
+    expectCount(
+        receipt: ContractReceipt,
+        count: number,
+        expected?: PartialEventIn<A, O>
+    ): R[]
+
     waitAll(
         source: ContractReceiptSource,
         fn: (args: R[]) => void
     ): Promise<ContractReceipt>
 
+    /**
+     * Queries historical events of this type from the emitter.
+     * Logs are requested by chunks of blocks and a chunk is reduced
+     * when the provider reports a limit of results or of a block range.
+     *
+     * @param query a block range, a chunk size and a partial filter of events
+     * @return decoded events matched by the filter, in the order of blocks
+     */
+    query(query?: EventQuery<A, O>): Promise<R[]>
+
+    /**
+     * Same as `query`, but provides events as they are received by chunks of blocks.
+     *
+     * @param query a block range, a chunk size and a partial filter of events
+     * @return async iterator of decoded events matched by the filter
+     */
+    iterate(query?: EventQuery<A, O>): AsyncIterableIterator<R>
+
     toString(): string
     name(): string
 
@@ -150,7 +238,15 @@ export const wrapEventType = <A extends unknown[], O extends object>(
                 forwardOnly ?? false,
                 ...filters
             )
-            return events
+            const fragment = emitter.interface.getEvent(this.toString())
+            return events.map(
+                (args, i) =>
+                    _withIndexedValues(
+                        fragment,
+                        args as unknown as utils.Result,
+                        expecteds[i]
+                    ) as unknown as O
+            )
         }
 
         all<Result = O[]>(
@@ -170,6 +266,31 @@ export const wrapEventType = <A extends unknown[], O extends object>(
             return fn(args as unknown as O[])
         }
 
+        tryAll(receipt: ContractReceipt): O[] {
+            return findEvents(receipt, this.newFilter()).map((args) =>
+                this.verifyArgs(args as unknown as utils.Result)
+            )
+        }
+
+        expectNone(
+            receipt: ContractReceipt,
+            expected?: PartialEventIn<A, O>
+        ): void {
+            expectNoEvents(receipt, this.newFilter(expected))
+        }
+
+        expectCount(
+            receipt: ContractReceipt,
+            count: number,
+            expected?: PartialEventIn<A, O>
+        ): O[] {
+            return expectEventCount(
+                receipt,
+                count,
+                this.newFilter(expected)
+            ).map((args) => this.verifyArgs(args as unknown as utils.Result))
+        }
+
         async waitAll(
             source: ContractReceiptSource,
             fn?: (args: O[]) => void
@@ -179,6 +300,38 @@ export const wrapEventType = <A extends unknown[], O extends object>(
             return receipt
         }
 
+        async query(query?: EventQuery<A, O>): Promise<O[]> {
+            const result: O[] = []
+            for await (const event of this.iterate(query)) {
+                result.push(event)
+            }
+            return result
+        }
+
+        async *iterate(query?: EventQuery<A, O>): AsyncIterableIterator<O> {
+            const n = this.toString()
+            const fragment = emitter.interface.getEvent(n)
+            const filter = this.newFilter(query?.filter, query?.emitterAddress)
+
+            for await (const logs of queryLogsInChunks(
+                emitter.provider,
+                filter,
+                query
+            )) {
+                for (const log of logs) {
+                    const args = matchEventLog(log, filter)
+                    if (args) {
+                        _verifyByFragment(fragment, n, args)
+                        yield _withIndexedValues(
+                            fragment,
+                            args,
+                            query?.filter
+                        ) as unknown as O
+                    }
+                }
+            }
+        }
+
         toString(): string {
             return this.name()
         }
@@ -192,11 +345,12 @@ export const wrapEventType = <A extends unknown[], O extends object>(
             expected?: PartialEventIn<A, O>
         ): O {
             const n = this.toString()
+            const fragment = emitter.interface.getEvent(n)
             if ((expected ?? null) !== null) {
-                _verifyByProperties(expected, n, args)
+                _verifyByProperties(expected, n, args, fragment)
             }
-            _verifyByFragment(emitter.interface.getEvent(n), n, args)
-            return args as unknown as O
+            _verifyByFragment(fragment, n, args)
+            return _withIndexedValues(fragment, args, expected) as unknown as O
         }
 
         newListener(afterBlock?: number): EventListener<O> {
@@ -229,8 +383,8 @@ export const wrapEventType = <A extends unknown[], O extends object>(
         }
     })()
 
-const _verifyByFragment = (
-    fragment: utils.EventFragment,
+export const _verifyByFragment = (
+    fragment: utils.Fragment,
     name: string,
     args: utils.Result
 ) => {
@@ -247,29 +401,103 @@ const _verifyByFragment = (
     })
 }
 
-const _verifyByProperties = <T>(
+/*
+ * Substitutes Indexed values of dynamic indexed arguments by the expected plain values,
+ * the values must be verified before. Values are normalized by ABI encoding, e.g.
+ * numbers are converted to BigNumber.
+ */
+const _withIndexedValues = (
+    fragment: utils.EventFragment,
+    args: utils.Result,
+    expected: unknown
+): utils.Result => {
+    if ((expected ?? null) === null) {
+        return args
+    }
+    const values = expected as Record<string, unknown>
+    let result: MutableResult | undefined
+    fragment.inputs.forEach((param, index) => {
+        const value =
+            values[index] ?? (param.name ? values[param.name] : null) ?? null
+        if (
+            value === null ||
+            isValueMatcher(value) ||
+            !utils.Indexed.isIndexed(args[index])
+        ) {
+            return
+        }
+        let decoded: unknown
+        try {
+            ;[decoded] = utils.defaultAbiCoder.decode(
+                [param],
+                utils.defaultAbiCoder.encode([param], [value])
+            )
+        } catch {
+            // contains matchers
+            return
+        }
+        result = result ?? _copyResult(fragment, args)
+        result[index] = decoded
+        if (param.name) {
+            result[param.name] = decoded
+        }
+    })
+    return (result as utils.Result | undefined) ?? args
+}
+
+type MutableResult = unknown[] & Record<string, unknown>
+
+const _copyResult = (
+    fragment: utils.EventFragment,
+    args: utils.Result
+): MutableResult => {
+    const result = [...(args as unknown[])] as MutableResult
+    fragment.inputs.forEach((param, index) => {
+        if (param.name) {
+            result[param.name] = result[index]
+        }
+    })
+    return result
+}
+
+export const _verifyByProperties = <T>(
     expected: T,
     name: string,
-    args: utils.Result
+    args: utils.Result,
+    fragment?: utils.Fragment
 ) => {
+    const verify = (
+        label: string,
+        value: unknown,
+        actual: unknown,
+        param?: utils.ParamType
+    ) => {
+        if ((value ?? null) !== null) {
+            expect(
+                matchValue(value, actual, param),
+                `Mismatched value of property ${name}${label}: expected ${describeValue(
+                    value
+                )}, actual ${describeValue(actual)}`
+            ).is.true
+        }
+    }
+
     if (Array.isArray(expected)) {
         ;(expected as unknown[]).forEach((value, index) => {
-            if ((value ?? null) !== null) {
-                expect(
-                    args[index],
-                    `Mismatched value of property ${name}[${index}]`
-                ).eq(value)
-            }
+            verify(`[${index}]`, value, args[index], fragment?.inputs[index])
         })
     }
     Object.entries(expected as unknown as object).forEach(
         ([propName, value]) => {
-            if ((value ?? null) !== null) {
-                expect(
-                    args[propName],
-                    `Mismatched value of property ${name}.${propName}`
-                ).eq(value)
-            }
+            const index = parseInt(propName, 10)
+            verify(
+                `.${propName}`,
+                value,
+                args[propName],
+                isNaN(index)
+                    ? fragment?.inputs.find((p) => p.name === propName)
+                    : fragment?.inputs[index]
+            )
         }
     )
 }
@@ -0,0 +1,231 @@
+import {expect} from 'chai'
+import {BigNumber, ContractReceipt, utils} from 'ethers'
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs'
+import {dirname, join} from 'path'
+import {knownContractNameOf, knownInterfaces} from './known-contracts'
+import {decodeLogs} from './receipt-decoder'
+import {ContractReceiptSource, contractReceiptOf} from './transaction'
+
+const DIFF_CONTEXT_LINES = 3
+
+/**
+ * A log in a normalized form of a snapshot.
+ */
+export interface EventSnapshotEntry {
+    emitter: string
+    contract?: string
+    event?: string
+    /* args by names, or by indices for unnamed params */
+    args?: Record<string, unknown>
+    /* raw log, when the log is not decoded */
+    topics?: string[]
+    data?: string
+}
+
+export interface EventsSnapshotOptions {
+    /* a directory of snapshot files, `snapshots` by default */
+    dir?: string
+    /* labels to replace addresses, e.g. `{[admin.address]: 'admin'}` */
+    labels?: Record<string, string>
+    /* replaces other addresses by labels of contract names and order, e.g. `Box#1`, `address#2` */
+    autoLabels?: boolean
+    /* rewrites the snapshot by the actual events, also writes a missing one on CI */
+    update?: boolean
+}
+
+/**
+ * Decodes all logs of the receipt by known contract types, and normalizes values:
+ * numbers to decimal strings, addresses to checksums or labels, Indexed to hashes.
+ */
+export function eventsSnapshotOf(
+    receipt: Pick<ContractReceipt, 'logs'>,
+    options?: Omit<EventsSnapshotOptions, 'dir' | 'update'>
+): EventSnapshotEntry[] {
+    const labelOf = _addressLabeler(options)
+    return decodeLogs(receipt.logs, knownInterfaces(), knownContractNameOf).map(
+        (entry): EventSnapshotEntry => {
+            if (!entry.decoded) {
+                return {
+                    emitter: labelOf(entry.emitter),
+                    topics: entry.log.topics,
+                    data: entry.log.data
+                }
+            }
+            const args: Record<string, unknown> = {}
+            entry.fragment.inputs.forEach((param, index) => {
+                args[param.name || String(index)] = _normalize(
+                    entry.args[index],
+                    param,
+                    labelOf
+                )
+            })
+            return {
+                emitter: labelOf(entry.emitter),
+                contract: entry.contractName,
+                event: entry.eventName,
+                args
+            }
+        }
+    )
+}
+
+/**
+ * Compares events of the receipt with a golden file of the snapshot.
+ * The snapshot is written when it is missing or when `update` is set.
+ * A missing snapshot fails when `CI` is set in the environment, unless `update` is set.
+ *
+ * @param source of the receipt
+ * @param snapshotName name of the snapshot file, without extension
+ * @param options a directory of snapshots, labels of addresses and an update flag
+ * @return the normalized events
+ */
+export async function expectEventsSnapshot(
+    source: ContractReceiptSource,
+    snapshotName: string,
+    options?: EventsSnapshotOptions
+): Promise<EventSnapshotEntry[]> {
+    const actual = eventsSnapshotOf(await contractReceiptOf(source), options)
+    const path = join(options?.dir ?? 'snapshots', `${snapshotName}.json`)
+    const actualJson = `${JSON.stringify(actual, null, 2)}\n`
+
+    const exists = existsSync(path)
+    if (!exists && !options?.update && process.env.CI) {
+        expect.fail(
+            `Events snapshot ${path} is missing, it is not written on CI unless updated`
+        )
+    }
+    if (options?.update || !exists) {
+        mkdirSync(dirname(path), {recursive: true})
+        writeFileSync(path, actualJson)
+        return actual
+    }
+    const expectedJson = readFileSync(path, 'utf8')
+    if (expectedJson !== actualJson) {
+        const diff = _diffLines(
+            expectedJson.trimEnd().split('\n'),
+            actualJson.trimEnd().split('\n')
+        )
+        expect.fail(
+            `Events differ from snapshot ${path} (- expected, + actual):\n${diff.join(
+                '\n'
+            )}`
+        )
+    }
+    return actual
+}
+
+function _addressLabeler(
+    options?: Pick<EventsSnapshotOptions, 'labels' | 'autoLabels'>
+): (address: string) => string {
+    const labels = new Map<string, string>()
+    for (const [address, label] of Object.entries(options?.labels ?? {})) {
+        labels.set(address.toLowerCase(), label)
+    }
+    const counts = new Map<string, number>()
+
+    return (address: string) => {
+        const key = address.toLowerCase()
+        const label = labels.get(key)
+        if (label) {
+            return label
+        }
+        if (!options?.autoLabels) {
+            return utils.getAddress(address)
+        }
+        const prefix = knownContractNameOf(address) ?? 'address'
+        const n = counts.get(prefix) ?? 0
+        counts.set(prefix, n + 1)
+        const autoLabel = `${prefix}#${n}`
+        labels.set(key, autoLabel)
+        return autoLabel
+    }
+}
+
+function _normalize(
+    value: unknown,
+    param: utils.ParamType,
+    labelOf: (address: string) => string
+): unknown {
+    if (utils.Indexed.isIndexed(value)) {
+        return value.hash
+    }
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString()
+    }
+    switch (param.baseType) {
+        case 'address':
+            return labelOf(value as string)
+        case 'array':
+            return (value as unknown[]).map((v) =>
+                _normalize(v, param.arrayChildren, labelOf)
+            )
+        case 'tuple': {
+            const fields = value as unknown[]
+            const result: Record<string, unknown> = {}
+            param.components.forEach((p, i) => {
+                result[p.name || String(i)] = _normalize(fields[i], p, labelOf)
+            })
+            return result
+        }
+        default:
+    }
+    return typeof value === 'string' && utils.isHexString(value)
+        ? value.toLowerCase()
+        : value
+}
+
+/*
+ * A line diff by the longest common subsequence, lines are small enough for O(n*m).
+ */
+function _diffLines(expected: string[], actual: string[]): string[] {
+    const common: number[][] = Array.from({length: expected.length + 1}, () =>
+        new Array<number>(actual.length + 1).fill(0)
+    )
+    for (let i = expected.length - 1; i >= 0; i--) {
+        for (let j = actual.length - 1; j >= 0; j--) {
+            common[i][j] =
+                expected[i] === actual[j]
+                    ? common[i + 1][j + 1] + 1
+                    : Math.max(common[i + 1][j], common[i][j + 1])
+        }
+    }
+
+    const diff: string[] = []
+    let i = 0
+    let j = 0
+    while (i < expected.length || j < actual.length) {
+        if (
+            i < expected.length &&
+            j < actual.length &&
+            expected[i] === actual[j]
+        ) {
+            diff.push(`  ${expected[i++]}`)
+            j++
+        } else if (
+            i < expected.length &&
+            (j === actual.length || common[i + 1][j] >= common[i][j + 1])
+        ) {
+            diff.push(`- ${expected[i++]}`)
+        } else {
+            diff.push(`+ ${actual[j++]}`)
+        }
+    }
+    return _withContext(diff, DIFF_CONTEXT_LINES)
+}
+
+// keeps unchanged lines only around changes
+function _withContext(diff: string[], context: number): string[] {
+    const changed = diff.map((line) => !line.startsWith('  '))
+    const result: string[] = []
+    diff.forEach((line, index) => {
+        const near = changed
+            .slice(Math.max(index - context, 0), index + context + 1)
+            .some(Boolean)
+        if (near) {
+            result.push(line)
+        } else if (result[result.length - 1] !== '  ...') {
+            result.push('  ...')
+        }
+    })
+    return result
+}
@@ -0,0 +1,104 @@
+import {BaseContract, providers} from 'ethers'
+import {invalidateEventListeners} from './event-listener'
+import {getKnownJsonRpcProvider} from './known-contracts'
+
+export interface FixtureOptions {
+    /* a provider of a local dev node, the one of deployed contracts by default */
+    provider?: providers.JsonRpcProvider
+}
+
+interface FixtureState {
+    /* identity of a fixture */
+    fixture: object
+    provider: providers.JsonRpcProvider
+    snapshotId: string
+    result: unknown
+}
+
+/*
+ * Snapshots of fixtures in the order of taking. A revert to a snapshot
+ * discards all later ones, so fixtures of those have to run their setups again.
+ */
+const snapshots: FixtureState[] = []
+
+/**
+ * Creates a fixture, which runs the setup once and takes a snapshot of the chain.
+ * Later calls revert the chain to the snapshot and return the same result,
+ * where contracts are attached again. A setup can use other fixtures.
+ *
+ * Event listeners which are not stopped before a revert are invalidated.
+ *
+ * @param setup to deploy contracts and to make transactions
+ * @param options a provider of a local dev node
+ * @return a function to get the result of the setup
+ */
+export function fixture<T>(
+    setup: () => Promise<T>,
+    options?: FixtureOptions
+): () => Promise<T> {
+    const id = {}
+
+    return async (): Promise<T> => {
+        const index = snapshots.findIndex((s) => s.fixture === id)
+        if (index >= 0) {
+            const {provider, snapshotId, result} = snapshots[index]
+            snapshots.splice(index)
+            if (await provider.send('evm_revert', [snapshotId])) {
+                invalidateEventListeners(
+                    'chain state was reverted by a fixture'
+                )
+                // a snapshot can only be reverted once
+                snapshots.push({
+                    fixture: id,
+                    provider,
+                    snapshotId: await _takeSnapshot(provider),
+                    result
+                })
+                return _reattach(result as T)
+            }
+        }
+
+        const result = await setup()
+        const provider =
+            options?.provider ??
+            getKnownJsonRpcProvider(
+                'Fixture needs a provider of a local dev node'
+            )
+        snapshots.push({
+            fixture: id,
+            provider,
+            snapshotId: await _takeSnapshot(provider),
+            result
+        })
+        return result
+    }
+}
+
+async function _takeSnapshot(
+    provider: providers.JsonRpcProvider
+): Promise<string> {
+    return (await provider.send('evm_snapshot', [])) as string
+}
+
+/*
+ * Contracts are replaced by new instances at the same addresses,
+ * so nothing is kept from before the revert, e.g. subscriptions to events.
+ */
+function _reattach<T>(value: T): T {
+    if (value instanceof BaseContract) {
+        return value.attach(value.address) as unknown as T
+    }
+    if (Array.isArray(value)) {
+        return value.map(_reattach) as unknown as T
+    }
+    if (
+        typeof value === 'object' &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype
+    ) {
+        return Object.fromEntries(
+            Object.entries(value).map(([k, v]) => [k, _reattach(v)])
+        ) as T
+    }
+    return value
+}
@@ -0,0 +1,216 @@
+import {expect} from 'chai'
+import {BigNumber, BigNumberish, providers} from 'ethers'
+import {ContractReceipt} from '@ethersproject/contracts/src.ts/index'
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs'
+import {dirname} from 'path'
+import {
+    decodeKnownFunctionCall,
+    getKnownProvider,
+    knownContractNameOf
+} from './known-contracts'
+import {observeTransactions} from './transaction'
+
+/**
+ * Gas used by calls of a method, a deployment is recorded as `constructor`.
+ */
+export interface GasUsage {
+    calls: number
+    min: number
+    max: number
+    avg: number
+}
+
+/**
+ * Gas usage by keys of `Contract.method` form.
+ */
+export type GasSnapshot = Record<string, GasUsage | undefined>
+
+export interface GasTolerance {
+    /* allowed increase of the average gas, in percents of the baseline */
+    percent?: number
+    /* allowed increase of the average gas, in gas units */
+    gas?: number
+}
+
+export interface GasSnapshotOptions {
+    /* a tolerance of all methods, any increase fails by default */
+    tolerance?: GasTolerance
+    /* tolerances by keys of `Contract.method` form */
+    methods?: Record<string, GasTolerance>
+    /* rewrites the snapshot by the recorded usage */
+    update?: boolean
+}
+
+export interface GasRegression {
+    key: string
+    baseline: number
+    actual: number
+    allowed: number
+}
+
+export interface GasComparison {
+    regressions: GasRegression[]
+    /* keys recorded, but missing in the baseline */
+    added: string[]
+}
+
+/**
+ * Records gas used by successful transactions and deployments, by contract names and methods.
+ * Calls are decoded by known contract types, i.e. the ones of wrapImportedFactories().
+ */
+export class GasRecorder {
+    private readonly _usage = new Map<string, number[]>()
+    private readonly _seen = new Set<string>()
+    private _stop: (() => void) | undefined
+
+    /**
+     * Starts to receive transactions checked by `successfulTransaction` and `waitAll`,
+     * and deployments made by wrapImportedFactories().
+     */
+    public start(): this {
+        if (!this._stop) {
+            this._stop = observeTransactions((receipt, tx) =>
+                this.recordReceipt(receipt, tx)
+            )
+        }
+        return this
+    }
+
+    public stop(): void {
+        this._stop?.()
+        // eslint-disable-next-line no-undefined
+        this._stop = undefined
+    }
+
+    public reset(): void {
+        this._usage.clear()
+        this._seen.clear()
+    }
+
+    public record(
+        contractName: string,
+        method: string,
+        gasUsed: BigNumberish
+    ): void {
+        const key = `${contractName}.${method}`
+        const usage = this._usage.get(key) ?? []
+        usage.push(BigNumber.from(gasUsed).toNumber())
+        this._usage.set(key, usage)
+    }
+
+    /**
+     * Records a receipt once, a transaction is fetched when not given.
+     */
+    public async recordReceipt(
+        receipt: ContractReceipt,
+        tx?: providers.TransactionResponse
+    ): Promise<void> {
+        if (this._seen.has(receipt.transactionHash)) {
+            return
+        }
+        this._seen.add(receipt.transactionHash)
+
+        if (receipt.contractAddress) {
+            this.record(
+                knownContractNameOf(receipt.contractAddress) ??
+                    receipt.contractAddress,
+                'constructor',
+                receipt.gasUsed
+            )
+            return
+        }
+        const data =
+            tx?.data ??
+            (await getKnownProvider()?.getTransaction(receipt.transactionHash))
+                ?.data ??
+            '0x'
+        const [call] = decodeKnownFunctionCall(receipt.to, data)
+        this.record(
+            call?.contractName ?? knownContractNameOf(receipt.to) ?? receipt.to,
+            call?.description.name ??
+                (data.length >= 10 ? data.slice(0, 10) : 'receive'),
+            receipt.gasUsed
+        )
+    }
+
+    public snapshot(): GasSnapshot {
+        const snapshot: GasSnapshot = {}
+        for (const key of [...this._usage.keys()].sort()) {
+            const usage = this._usage.get(key) ?? []
+            snapshot[key] = {
+                calls: usage.length,
+                min: Math.min(...usage),
+                max: Math.max(...usage),
+                avg: Math.round(
+                    usage.reduce((sum, gas) => sum + gas, 0) / usage.length
+                )
+            }
+        }
+        return snapshot
+    }
+
+    public writeSnapshot(path: string): void {
+        mkdirSync(dirname(path), {recursive: true})
+        writeFileSync(path, `${JSON.stringify(this.snapshot(), null, 2)}\n`)
+    }
+
+    /**
+     * Compares average gas of recorded methods with the baseline snapshot.
+     * Methods missing in the recorded usage are not compared.
+     */
+    public compareWithSnapshot(
+        path: string,
+        options?: GasSnapshotOptions
+    ): GasComparison {
+        const baseline = JSON.parse(readFileSync(path, 'utf8')) as GasSnapshot
+        const comparison: GasComparison = {regressions: [], added: []}
+        for (const [key, usage] of Object.entries(this.snapshot())) {
+            const expected = baseline[key]
+            if (!expected) {
+                comparison.added.push(key)
+            } else if (usage) {
+                const tolerance = options?.methods?.[key] ??
+                    options?.tolerance ?? {percent: 0}
+                const allowed = Math.max(
+                    tolerance.gas ?? 0,
+                    Math.floor((expected.avg * (tolerance.percent ?? 0)) / 100)
+                )
+                if (usage.avg > expected.avg + allowed) {
+                    comparison.regressions.push({
+                        key,
+                        baseline: expected.avg,
+                        actual: usage.avg,
+                        allowed
+                    })
+                }
+            }
+        }
+        return comparison
+    }
+
+    /**
+     * Fails when a method uses more gas than the baseline snapshot allows.
+     * The snapshot is written when it is missing or when `update` is set.
+     */
+    public expectWithinSnapshot(
+        path: string,
+        options?: GasSnapshotOptions
+    ): void {
+        if (options?.update || !existsSync(path)) {
+            this.writeSnapshot(path)
+            return
+        }
+        const {regressions} = this.compareWithSnapshot(path, options)
+        expect(
+            regressions,
+            `Gas usage regressed:\n${regressions
+                .map(
+                    (r) =>
+                        `  ${r.key}: ${r.actual} > ${r.baseline} (+${
+                            r.actual - r.baseline
+                        }, allowed +${r.allowed})`
+                )
+                .join('\n')}`
+        ).is.empty
+    }
+}
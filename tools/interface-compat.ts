@@ -0,0 +1,319 @@
+import {expect} from 'chai'
+import {utils} from 'ethers'
+
+export type InterfaceChangeKind =
+    | 'event-removed'
+    | 'event-changed'
+    | 'event-indexed-changed'
+    | 'event-added'
+    | 'function-removed'
+    | 'function-changed'
+    | 'function-added'
+    | 'error-removed'
+    | 'error-changed'
+    | 'error-added'
+
+export interface InterfaceChange {
+    kind: InterfaceChangeKind
+    name: string
+    /* signatures of the previous version, none for an addition */
+    before: string[]
+    /* signatures of the next version, none for a removal */
+    after: string[]
+    /* a change which breaks decoding by off-chain code, i.e. anything but an addition */
+    breaking: boolean
+}
+
+export interface InterfaceComparison {
+    from: string
+    to: string
+    changes: InterfaceChange[]
+    /* true when there are breaking changes */
+    breaking: boolean
+}
+
+export interface InterfaceComparisonOptions {
+    /* fails on breaking changes */
+    strict?: boolean
+}
+
+export interface VersionComparisonOptions extends InterfaceComparisonOptions {
+    /*
+     * a pattern of names of versions, where the first group is a name of the contract,
+     * and the optional second group is a version number, `/^(.+?)(?:V(\d+))?$/` by default
+     */
+    versionPattern?: RegExp
+}
+
+const DEFAULT_VERSION_PATTERN = /^(.+?)(?:V(\d+))?$/
+
+/**
+ * Compares events, functions and custom errors of two interfaces:
+ * - events by topic0 and by indexed flags of params
+ * - functions by selectors and by return types
+ * - custom errors by selectors
+ *
+ * @param from name of the previous version
+ * @param to name of the next version
+ * @param previous interface of the previous version
+ * @param next interface of the next version
+ */
+export function compareAbiInterfaces(
+    from: string,
+    to: string,
+    previous: utils.Interface,
+    next: utils.Interface
+): InterfaceComparison {
+    const changes = [
+        ..._compareEvents(previous, next),
+        ..._compareFunctions(previous, next),
+        ..._compareErrors(previous, next)
+    ]
+    return {
+        from,
+        to,
+        changes,
+        breaking: changes.some((change) => change.breaking)
+    }
+}
+
+/**
+ * Fails when the comparison has breaking changes.
+ */
+export function expectCompatibleInterfaces(
+    comparison: InterfaceComparison
+): void {
+    expect(
+        comparison.breaking,
+        `Breaking changes of ${comparison.from} -> ${
+            comparison.to
+        }:\n${formatInterfaceChanges({
+            ...comparison,
+            changes: comparison.changes.filter((change) => change.breaking)
+        })}`
+    ).is.false
+}
+
+/**
+ * Formats changes of a comparison into human-readable lines.
+ */
+export function formatInterfaceChanges(
+    comparison: InterfaceComparison
+): string {
+    return comparison.changes
+        .map((change) => {
+            const before = change.before.join(' | ')
+            const after = change.after.join(' | ')
+            const description =
+                before && after ? `${before} -> ${after}` : before || after
+            return `${change.breaking ? '!' : '+'} ${change.kind} ${
+                change.name
+            }: ${description}`
+        })
+        .join('\n')
+}
+
+/**
+ * Pairs consecutive versions of names which match the pattern, e.g. Box -> BoxV2 -> BoxV3.
+ * A name without a version number is the first version.
+ * Throws an error when names of a contract have the same version number.
+ *
+ * @param names of contract types
+ * @param versionPattern groups a name of the contract and a version number
+ * @return pairs of names of the previous and of the next versions
+ */
+export function versionPairsOf<N extends string>(
+    names: N[],
+    versionPattern: RegExp = DEFAULT_VERSION_PATTERN
+): [N, N][] {
+    const versions = new Map<string, [number, N][]>()
+    for (const name of names) {
+        const found = versionPattern.exec(name)
+        if (found) {
+            const list = versions.get(found[1]) ?? []
+            list.push([found[2] ? parseInt(found[2], 10) : 1, name])
+            versions.set(found[1], list)
+        }
+    }
+
+    const pairs: [N, N][] = []
+    for (const list of versions.values()) {
+        list.sort(([a], [b]) => a - b)
+        for (let i = 1; i < list.length; i++) {
+            if (list[i - 1][0] === list[i][0]) {
+                throw new Error(
+                    `Contract types ${list[i - 1][1]} and ${
+                        list[i][1]
+                    } have the same version ${list[i][0]}`
+                )
+            }
+            pairs.push([list[i - 1][1], list[i][1]])
+        }
+    }
+    return pairs
+}
+
+function _compareEvents(
+    previous: utils.Interface,
+    next: utils.Interface
+): InterfaceChange[] {
+    const changes: InterfaceChange[] = []
+    const nextEvents = Object.values(next.events)
+    const topics = new Map(
+        nextEvents.map((fragment) => [next.getEventTopic(fragment), fragment])
+    )
+
+    for (const fragment of Object.values(previous.events)) {
+        const same = topics.get(previous.getEventTopic(fragment))
+        if (same) {
+            if (_indexedOf(fragment) !== _indexedOf(same)) {
+                changes.push(
+                    _change(
+                        'event-indexed-changed',
+                        fragment.name,
+                        [fragment.format(utils.FormatTypes.full)],
+                        [same.format(utils.FormatTypes.full)]
+                    )
+                )
+            }
+            topics.delete(next.getEventTopic(same))
+            // eslint-disable-next-line no-continue
+            continue
+        }
+        const renamed = nextEvents.filter((f) => f.name === fragment.name)
+        changes.push(
+            _change(
+                renamed.length > 0 ? 'event-changed' : 'event-removed',
+                fragment.name,
+                [fragment.format(utils.FormatTypes.full)],
+                renamed.map((f) => f.format(utils.FormatTypes.full))
+            )
+        )
+    }
+    return changes.concat(
+        _additions('event-added', changes, [...topics.values()])
+    )
+}
+
+function _compareFunctions(
+    previous: utils.Interface,
+    next: utils.Interface
+): InterfaceChange[] {
+    const changes: InterfaceChange[] = []
+    const nextFunctions = Object.values(next.functions)
+    const selectors = new Map(
+        nextFunctions.map((fragment) => [next.getSighash(fragment), fragment])
+    )
+
+    for (const fragment of Object.values(previous.functions)) {
+        const same = selectors.get(previous.getSighash(fragment))
+        const before = fragment.format(utils.FormatTypes.minimal)
+        if (same) {
+            const after = same.format(utils.FormatTypes.minimal)
+            if (_outputsOf(fragment) !== _outputsOf(same)) {
+                changes.push(
+                    _change(
+                        'function-changed',
+                        fragment.name,
+                        [before],
+                        [after]
+                    )
+                )
+            }
+            selectors.delete(next.getSighash(same))
+            // eslint-disable-next-line no-continue
+            continue
+        }
+        const renamed = nextFunctions.filter((f) => f.name === fragment.name)
+        changes.push(
+            _change(
+                renamed.length > 0 ? 'function-changed' : 'function-removed',
+                fragment.name,
+                [before],
+                renamed.map((f) => f.format(utils.FormatTypes.minimal))
+            )
+        )
+    }
+    return changes.concat(
+        _additions(
+            'function-added',
+            changes,
+            [...selectors.values()],
+            utils.FormatTypes.minimal
+        )
+    )
+}
+
+function _compareErrors(
+    previous: utils.Interface,
+    next: utils.Interface
+): InterfaceChange[] {
+    const changes: InterfaceChange[] = []
+    const nextErrors = Object.values(next.errors)
+    const selectors = new Map(
+        nextErrors.map((fragment) => [next.getSighash(fragment), fragment])
+    )
+
+    for (const fragment of Object.values(previous.errors)) {
+        const selector = previous.getSighash(fragment)
+        if (selectors.has(selector)) {
+            selectors.delete(selector)
+            // eslint-disable-next-line no-continue
+            continue
+        }
+        const renamed = nextErrors.filter((f) => f.name === fragment.name)
+        changes.push(
+            _change(
+                renamed.length > 0 ? 'error-changed' : 'error-removed',
+                fragment.name,
+                [fragment.format(utils.FormatTypes.full)],
+                renamed.map((f) => f.format(utils.FormatTypes.full))
+            )
+        )
+    }
+    return changes.concat(
+        _additions('error-added', changes, [...selectors.values()])
+    )
+}
+
+/*
+ * Fragments reported by changes of previous fragments are not reported as additions,
+ * e.g. a new overload of a previous function is an addition.
+ */
+function _additions(
+    kind: InterfaceChangeKind,
+    changes: InterfaceChange[],
+    added: utils.Fragment[],
+    format: string = utils.FormatTypes.full
+): InterfaceChange[] {
+    const reported = new Set(changes.flatMap((change) => change.after))
+    return added
+        .filter((fragment) => !reported.has(fragment.format(format)))
+        .map((fragment) =>
+            _change(
+                kind,
+                fragment.name,
+                [],
+                [fragment.format(utils.FormatTypes.full)]
+            )
+        )
+}
+
+function _indexedOf(fragment: utils.EventFragment): string {
+    return fragment.inputs.map((param) => (param.indexed ? 1 : 0)).join('')
+}
+
+function _outputsOf(fragment: utils.FunctionFragment): string {
+    return (fragment.outputs ?? [])
+        .map((param) => param.format(utils.FormatTypes.sighash))
+        .join(',')
+}
+
+function _change(
+    kind: InterfaceChangeKind,
+    name: string,
+    before: string[],
+    after: string[]
+): InterfaceChange {
+    return {kind, name, before, after, breaking: before.length > 0}
+}
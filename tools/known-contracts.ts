@@ -0,0 +1,154 @@
+import {providers, utils} from 'ethers'
+
+/*
+ * Registry of contract types and addresses known to this process.
+ * It is populated by wrapImportedFactories() and is used for diagnostics
+ * when a context of a contract is not available, e.g. for a failed transaction.
+ */
+
+const interfaceFactories = new Map<string, () => utils.Interface>()
+const interfaces = new Map<string, utils.Interface>()
+const addresses = new Map<string, string>()
+let knownProvider: providers.Provider | undefined
+
+export interface KnownFunctionCall {
+    contractName: string
+    description: utils.TransactionDescription
+}
+
+/**
+ * Registers an interface of a contract type. The interface is created lazily.
+ *
+ * @param contractName of the contract type
+ * @param createInterface to provide an interface
+ */
+export function registerContractType(
+    contractName: string,
+    createInterface: () => utils.Interface
+): void {
+    if (!interfaceFactories.has(contractName)) {
+        interfaceFactories.set(contractName, createInterface)
+    }
+}
+
+/**
+ * Registers an address of a deployed or attached contract.
+ *
+ * @param address of the contract
+ * @param contractName of the contract type
+ */
+export function registerContractAddress(
+    address: string,
+    contractName: string
+): void {
+    addresses.set(address.toUpperCase(), contractName)
+}
+
+/**
+ * Registers a provider to be used for diagnostics, e.g. to replay a failed transaction.
+ *
+ * @param provider to be used when none is given explicitly
+ */
+export function registerProvider(provider?: providers.Provider): void {
+    if (provider) {
+        knownProvider = provider
+    }
+}
+
+export function getKnownProvider(): providers.Provider | undefined {
+    return knownProvider
+}
+
+/**
+ * Returns the known provider when it sends JSON-RPC requests, e.g. methods of a local dev node.
+ *
+ * @param errorMessage of an error thrown when there is no such provider
+ */
+export function getKnownJsonRpcProvider(
+    errorMessage: string
+): providers.JsonRpcProvider {
+    if (
+        typeof (knownProvider as Partial<providers.JsonRpcProvider> | undefined)
+            ?.send !== 'function'
+    ) {
+        throw new Error(errorMessage)
+    }
+    return knownProvider as providers.JsonRpcProvider
+}
+
+export function knownContractNameOf(address?: string): string | undefined {
+    if (address) {
+        return addresses.get(address.toUpperCase())
+    }
+}
+
+export function knownInterfaceOf(
+    contractName: string
+): utils.Interface | undefined {
+    let decoder = interfaces.get(contractName)
+    // eslint-disable-next-line no-undefined
+    if (decoder === undefined) {
+        const createInterface = interfaceFactories.get(contractName)
+        // eslint-disable-next-line no-undefined
+        if (createInterface === undefined) {
+            return
+        }
+        decoder = createInterface()
+        interfaces.set(contractName, decoder)
+    }
+    return decoder
+}
+
+/**
+ * Returns interfaces of all known contract types.
+ */
+export function knownInterfaces(): Map<string, utils.Interface> {
+    for (const contractName of interfaceFactories.keys()) {
+        knownInterfaceOf(contractName)
+    }
+    return interfaces
+}
+
+/**
+ * Decodes call data of a transaction by known contract types.
+ * When the address is known, then the relevant contract type is used;
+ * otherwise, all known contract types are scanned by the function selector.
+ *
+ * @param to address of the called contract
+ * @param data of the call
+ * @return decoded calls, there can be a few when the address is unknown
+ */
+export function decodeKnownFunctionCall(
+    to: string | undefined,
+    data: string
+): KnownFunctionCall[] {
+    const tryDecode = (
+        contractName: string,
+        decoder: utils.Interface
+    ): KnownFunctionCall | undefined => {
+        try {
+            return {
+                contractName,
+                description: decoder.parseTransaction({data})
+            }
+        } catch {
+            // the selector is unknown to this contract type
+        }
+    }
+
+    const knownName = knownContractNameOf(to)
+    if (knownName) {
+        const decoder = knownInterfaceOf(knownName)
+        const decoded = decoder && tryDecode(knownName, decoder)
+        return decoded ? [decoded] : []
+    }
+
+    const found: KnownFunctionCall[] = []
+    for (const [contractName, decoder] of knownInterfaces()) {
+        const decoded = tryDecode(contractName, decoder)
+        if (decoded) {
+            found.push(decoded)
+        }
+    }
+    return found
+}
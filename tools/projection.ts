@@ -0,0 +1,205 @@
+import {Contract, ContractReceipt, Event, providers, utils} from 'ethers'
+import {Log} from '@ethersproject/abstract-provider'
+import {ExtendedEventFilter, matchEventLog} from './event-filters'
+import {EventListener} from './event-listener'
+import {BlockRangeQuery, queryLogsInChunks} from './event-query'
+import {
+    _verifyByFragment,
+    EventFactoryOmni,
+    PartialEventIn
+} from './event-wrapper'
+
+/**
+ * Updates a state by an event, either in place or by returning a new state.
+ */
+export interface ProjectionReducer<S, R> {
+    (state: S, event: R, log: Log): S | void
+}
+
+interface ProjectionHandler<S> {
+    filter: ExtendedEventFilter
+    reducer: ProjectionReducer<S, unknown>
+}
+
+/**
+ * A state folded from events by typed reducers, events are applied in the order of logs,
+ * i.e. by blocks and then by log indices. Every log is applied once.
+ */
+export class Projection<S> {
+    private _state: S
+    private readonly _handlers: ProjectionHandler<S>[] = []
+    private readonly _applied = new Set<string>()
+    private readonly _listeners = new Map<EventListener<Log>, number>()
+
+    constructor(initialState: S) {
+        this._state = initialState
+    }
+
+    get state(): S {
+        return this._state
+    }
+
+    /**
+     * Registers a reducer of events of the given type and emitter.
+     *
+     * @param event a wrapper created by `eventOf`
+     * @param reducer to update the state by an event
+     * @param filter partial filter of events, all events of the type when undefined
+     */
+    public on<A extends unknown[], O extends object, R extends O>(
+        event: EventFactoryOmni<A, O, R>,
+        reducer: ProjectionReducer<S, R>,
+        filter?: PartialEventIn<A, O>
+    ): this {
+        this._handlers.push({
+            filter: event.newFilter(filter) as ExtendedEventFilter,
+            reducer: reducer as ProjectionReducer<S, unknown>
+        })
+        return this
+    }
+
+    /**
+     * Applies logs, which are not applied yet, in the order of logs.
+     */
+    public apply(logs: Log[]): S {
+        const unique = new Map<string, Log>()
+        for (const log of logs) {
+            const position = _positionOf(log)
+            if (!this._applied.has(position) && !unique.has(position)) {
+                unique.set(position, log)
+            }
+        }
+        const pending = [...unique.values()].sort((a, b) =>
+            a.blockNumber === b.blockNumber
+                ? a.logIndex - b.logIndex
+                : a.blockNumber - b.blockNumber
+        )
+        for (const log of pending) {
+            const position = _positionOf(log)
+            if (!this._applied.has(position)) {
+                this._applied.add(position)
+                this._applyLog(log)
+            }
+        }
+        return this._state
+    }
+
+    public applyReceipt(receipt: Pick<ContractReceipt, 'logs'>): S {
+        return this.apply(receipt.logs)
+    }
+
+    /**
+     * Applies historical events of all registered reducers.
+     *
+     * @param provider to query logs
+     * @param query a block range and a chunk size
+     */
+    public async applyQuery(
+        provider: providers.Provider,
+        query?: BlockRangeQuery
+    ): Promise<S> {
+        const logs: Log[] = []
+        for (const {filter} of this._handlers) {
+            for await (const chunk of queryLogsInChunks(
+                provider,
+                filter,
+                query
+            )) {
+                logs.push(...chunk)
+            }
+        }
+        return this.apply(logs)
+    }
+
+    /**
+     * Follows events received by the listener, they are applied by `update`.
+     */
+    public follow(listener: EventListener<Log>): this {
+        if (!this._listeners.has(listener)) {
+            this._listeners.set(listener, 0)
+        }
+        return this
+    }
+
+    /**
+     * Creates and follows listeners of all emitters of registered reducers.
+     * Events from different emitters are ordered only within a single `update`.
+     *
+     * @param provider to subscribe
+     * @param afterBlock events of this and earlier blocks are skipped
+     * @return the listeners to be stopped when not needed
+     */
+    public listen(
+        provider: providers.Provider,
+        afterBlock?: number
+    ): EventListener<Event>[] {
+        const fragments = new Map<string, utils.EventFragment[]>()
+        for (const {filter} of this._handlers) {
+            if (filter.address && filter.fragment) {
+                const emitter = filter.address.toLowerCase()
+                const list = fragments.get(emitter) ?? []
+                if (!list.includes(filter.fragment)) {
+                    list.push(filter.fragment)
+                }
+                fragments.set(emitter, list)
+            }
+        }
+        return [...fragments].map(([emitter, list]) => {
+            const listener = new EventListener<Event>(
+                new Contract(emitter, list, provider),
+                '*',
+                (event) => event,
+                afterBlock
+            )
+            this.follow(listener)
+            return listener
+        })
+    }
+
+    /**
+     * Applies events received by followed listeners since the last update.
+     * Throws an error when a listener has failed.
+     */
+    public update(): S {
+        const logs: Log[] = []
+        for (const [listener, count] of this._listeners) {
+            const events = listener.events()
+            logs.push(...events.slice(count))
+            this._listeners.set(listener, events.length)
+        }
+        return this.apply(logs)
+    }
+
+    private _applyLog(log: Log): void {
+        for (const {filter, reducer} of this._handlers) {
+            const args = matchEventLog(log, filter)
+            if (args) {
+                if (filter.fragment) {
+                    _verifyByFragment(
+                        filter.fragment,
+                        filter.fragment.name,
+                        args
+                    )
+                }
+                const next = reducer(this._state, args, log)
+                // eslint-disable-next-line no-undefined
+                if (next !== undefined) {
+                    this._state = next as S
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Creates a projection of events into a typed state.
+ *
+ * @param initialState to be updated by reducers
+ */
+export function projection<S>(initialState: S): Projection<S> {
+    return new Projection(initialState)
+}
+
+function _positionOf(log: Log): string {
+    return `${log.blockNumber}:${log.logIndex}`
+}
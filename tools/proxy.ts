@@ -0,0 +1,146 @@
+import {expect} from 'chai'
+import {constants, providers, utils} from 'ethers'
+import {ContractReceiptSource, contractReceiptOf} from './transaction'
+
+/*
+ * EIP-1967 slots are keccak256 of a name minus 1, e.g. `eip1967.proxy.implementation`
+ */
+export const EIP1967_IMPLEMENTATION_SLOT =
+    '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+export const EIP1967_ADMIN_SLOT =
+    '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103'
+export const EIP1967_BEACON_SLOT =
+    '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50'
+
+const proxyEvents = new utils.Interface([
+    'event Upgraded(address indexed implementation)'
+])
+const beaconFunctions = new utils.Interface([
+    'function implementation() view returns (address)'
+])
+
+/**
+ * Reads an address of the implementation of an EIP-1967 proxy.
+ * For a beacon proxy, the implementation is provided by the beacon.
+ *
+ * @param provider to read the storage
+ * @param proxy address of the proxy
+ * @return address of the implementation, or the zero address when it is not set
+ */
+export async function implementationOf(
+    provider: providers.Provider,
+    proxy: string
+): Promise<string> {
+    const implementation = await _readAddressSlot(
+        provider,
+        proxy,
+        EIP1967_IMPLEMENTATION_SLOT
+    )
+    if (implementation !== constants.AddressZero) {
+        return implementation
+    }
+    const beacon = await beaconOf(provider, proxy)
+    if (beacon === constants.AddressZero) {
+        return beacon
+    }
+    const [address] = beaconFunctions.decodeFunctionResult(
+        'implementation',
+        await provider.call({
+            to: beacon,
+            data: beaconFunctions.encodeFunctionData('implementation')
+        })
+    ) as [string]
+    return address
+}
+
+/**
+ * Reads an address of the admin of an EIP-1967 proxy, e.g. of a ProxyAdmin contract.
+ */
+export function adminOf(
+    provider: providers.Provider,
+    proxy: string
+): Promise<string> {
+    return _readAddressSlot(provider, proxy, EIP1967_ADMIN_SLOT)
+}
+
+/**
+ * Reads an address of the beacon of an EIP-1967 beacon proxy.
+ */
+export function beaconOf(
+    provider: providers.Provider,
+    proxy: string
+): Promise<string> {
+    return _readAddressSlot(provider, proxy, EIP1967_BEACON_SLOT)
+}
+
+/**
+ * Expects the proxy to emit `Upgraded(implementation)` in the transaction.
+ *
+ * @param source of the receipt
+ * @param proxy address of the proxy
+ * @param implementation expected address of the new implementation, any when undefined
+ * @return address of the new implementation
+ */
+export async function expectUpgraded(
+    source: ContractReceiptSource,
+    proxy: string,
+    implementation?: string
+): Promise<string> {
+    const receipt = await contractReceiptOf(source)
+    const topic = proxyEvents.getEventTopic('Upgraded')
+    const upgrades = receipt.logs
+        .filter(
+            (log) =>
+                log.address.toLowerCase() === proxy.toLowerCase() &&
+                log.topics[0] === topic
+        )
+        .map(
+            (log) => (proxyEvents.parseLog(log).args as unknown as [string])[0]
+        )
+    expect(
+        upgrades,
+        `Proxy ${proxy} has not emitted Upgraded in ${receipt.transactionHash}`
+    ).is.not.empty
+    const upgraded = upgrades[upgrades.length - 1]
+    if (implementation) {
+        expect(
+            upgraded.toLowerCase(),
+            `Proxy ${proxy} was upgraded to another implementation`
+        ).eq(implementation.toLowerCase())
+    }
+    return upgraded
+}
+
+/**
+ * Checks that the runtime code was deployed by the creation bytecode.
+ * Immutables and addresses of libraries are zeros in the creation bytecode,
+ * so those bytes of the runtime code are skipped.
+ *
+ * @param bytecode creation bytecode of a factory, without constructor args
+ * @param code runtime code of a deployed contract
+ */
+export function isDeployedBytecodeOf(
+    bytecode: utils.BytesLike,
+    code: utils.BytesLike
+): boolean {
+    const creation = utils.arrayify(bytecode)
+    const runtime = utils.arrayify(code)
+    if (runtime.length === 0 || runtime.length > creation.length) {
+        return false
+    }
+    // the runtime code is the tail of the creation bytecode
+    const offset = creation.length - runtime.length
+    return runtime.every(
+        (value, i) =>
+            creation[offset + i] === value || creation[offset + i] === 0
+    )
+}
+
+async function _readAddressSlot(
+    provider: providers.Provider,
+    address: string,
+    slot: string
+): Promise<string> {
+    const value = await provider.getStorageAt(address, slot)
+    return utils.getAddress(utils.hexDataSlice(utils.hexZeroPad(value, 32), 12))
+}
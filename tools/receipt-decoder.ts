@@ -0,0 +1,148 @@
+import {utils} from 'ethers'
+import {Log} from '@ethersproject/abstract-provider'
+import {formatArgs} from './revert'
+
+interface LogEntry {
+    logIndex: number
+    emitter: string
+    topic0?: string
+    log: Log
+}
+
+export interface DecodedLogEntry<N extends string = string> extends LogEntry {
+    decoded: true
+    contractName: N
+    /* all contract types with the same event, when the emitter is not known */
+    candidates: N[]
+    eventName: string
+    signature: string
+    fragment: utils.EventFragment
+    args: utils.Result
+}
+
+export interface UndecodedLogEntry extends LogEntry {
+    decoded: false
+}
+
+export type ReceiptLogEntry<N extends string = string> =
+    | DecodedLogEntry<N>
+    | UndecodedLogEntry
+
+interface EventCandidate<N extends string> {
+    contractName: N
+    decoder: utils.Interface
+    fragment: utils.EventFragment
+}
+
+/**
+ * Decodes logs by events of the given contract types.
+ * A log is decoded by the contract type of its emitter when the emitter is known;
+ * otherwise, by any contract type having an event with the same topic0.
+ *
+ * @param logs to be decoded
+ * @param interfaces contract types to decode events
+ * @param contractNameOf provides a contract type of a known emitter
+ * @return decoded or flagged log entries in the order of logs
+ */
+export function decodeLogs<N extends string>(
+    logs: Log[],
+    interfaces: Map<N, utils.Interface>,
+    contractNameOf: (emitter: string) => N | undefined
+): ReceiptLogEntry<N>[] {
+    const byTopic = _eventsByTopic(interfaces)
+
+    return logs.map((log, index) => {
+        const topic0: string | undefined = log.topics[0]
+        const logIndex = log.logIndex ?? index
+        const candidates = (topic0 && byTopic.get(topic0)) || []
+        const knownName = contractNameOf(log.address)
+
+        const ordered = knownName
+            ? [
+                  ...candidates.filter((c) => c.contractName === knownName),
+                  ...candidates.filter((c) => c.contractName !== knownName)
+              ]
+            : candidates
+
+        for (const candidate of ordered) {
+            try {
+                const args = candidate.decoder.decodeEventLog(
+                    candidate.fragment,
+                    log.data,
+                    log.topics
+                )
+                return {
+                    decoded: true,
+                    logIndex,
+                    emitter: log.address,
+                    topic0,
+                    contractName: candidate.contractName,
+                    candidates: _uniqueNames(
+                        knownName ? [candidate] : candidates
+                    ),
+                    eventName: candidate.fragment.name,
+                    signature: candidate.fragment.format(),
+                    fragment: candidate.fragment,
+                    args,
+                    log
+                }
+            } catch {
+                // same topic0, but different indexed arguments
+            }
+        }
+
+        return {
+            decoded: false,
+            logIndex,
+            emitter: log.address,
+            topic0,
+            log
+        }
+    })
+}
+
+/**
+ * Formats decoded logs into human-readable lines, one per log entry.
+ *
+ * @param entries decoded by decodeLogs()
+ */
+export function formatLogEntries(entries: ReceiptLogEntry[]): string {
+    return entries
+        .map((entry) => {
+            if (entry.decoded) {
+                const args = formatArgs(entry.fragment.inputs, entry.args)
+                return `#${entry.logIndex} ${entry.contractName}(${entry.emitter}).${entry.eventName}(${args})`
+            }
+            return `#${entry.logIndex} ${entry.emitter} unknown event ${
+                entry.topic0 ?? '(anonymous)'
+            }`
+        })
+        .join('\n')
+}
+
+function _eventsByTopic<N extends string>(
+    interfaces: Map<N, utils.Interface>
+): Map<string, EventCandidate<N>[]> {
+    const result = new Map<string, EventCandidate<N>[]>()
+    for (const [contractName, decoder] of interfaces) {
+        for (const fragment of Object.values(decoder.events)) {
+            if (fragment.anonymous) {
+                // eslint-disable-next-line no-continue
+                continue
+            }
+            const topic = decoder.getEventTopic(fragment)
+            let list = result.get(topic)
+            // eslint-disable-next-line no-undefined
+            if (list === undefined) {
+                list = []
+                result.set(topic, list)
+            }
+            list.push({contractName, decoder, fragment})
+        }
+    }
+    return result
+}
+
+function _uniqueNames<N extends string>(candidates: EventCandidate<N>[]): N[] {
+    return [...new Set(candidates.map((c) => c.contractName))]
+}
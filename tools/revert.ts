@@ -0,0 +1,296 @@
+import {BigNumber, ContractTransaction, providers, utils} from 'ethers'
+import type {RevertSource} from './transaction'
+
+const BUILTIN_ERRORS: Record<string, utils.FunctionFragment> = {
+    Error: utils.FunctionFragment.from('Error(string reason)'),
+    Panic: utils.FunctionFragment.from('Panic(uint256 code)')
+}
+
+/**
+ * Descriptions of Solidity panic codes.
+ * See https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+ */
+export const PANIC_CODES: Record<number, string> = {
+    0x00: 'generic compiler inserted panic',
+    0x01: 'assertion failed',
+    0x11: 'arithmetic underflow or overflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'conversion into an invalid enum value',
+    0x22: 'access to an incorrectly encoded storage byte array',
+    0x31: 'pop() on an empty array',
+    0x32: 'array index is out of bounds',
+    0x41: 'too much memory allocated',
+    0x51: 'call to a zero-initialized internal function'
+}
+
+export interface DecodedRevert {
+    name: string
+    signature: string
+    args: utils.Result
+    fragment: utils.Fragment
+}
+
+export interface RevertOutcome {
+    reverted: boolean
+    /* undefined when a node doesn't provide revert data */
+    data?: string
+    error?: unknown
+}
+
+export function isContractTransaction(v: unknown): v is ContractTransaction {
+    return (
+        typeof v === 'object' &&
+        v !== null &&
+        typeof (v as ContractTransaction).wait === 'function'
+    )
+}
+
+/**
+ * Formats decoded values with names of the given parameters.
+ *
+ * @param inputs parameters of a fragment
+ * @param args decoded values
+ */
+export function formatArgs(
+    inputs: utils.ParamType[],
+    args: utils.Result
+): string {
+    return inputs
+        .map(
+            (param, index) =>
+                `${param.name ? `${param.name}=` : ''}${String(args[index])}`
+        )
+        .join(', ')
+}
+
+/**
+ * Returns a selector of the given builtin (`Error`, `Panic`) or custom error.
+ *
+ * @param name of the error
+ * @param decoder to lookup a custom error
+ */
+export function revertSelectorOf(
+    name: string,
+    decoder: utils.Interface
+): string {
+    const builtin = BUILTIN_ERRORS[name]
+    // eslint-disable-next-line no-undefined
+    if (builtin !== undefined) {
+        return utils.Interface.getSighash(builtin)
+    }
+    return decoder.getSighash(decoder.getError(name))
+}
+
+/**
+ * Decodes revert data either as builtin `Error(string)` and `Panic(uint256)`
+ * or as a custom error known to any of the given interfaces.
+ *
+ * @param data of revert
+ * @param decoders to lookup custom errors
+ * @return the decoded error or undefined when the selector is unknown
+ */
+export function decodeRevertData(
+    data: string,
+    ...decoders: utils.Interface[]
+): DecodedRevert | undefined {
+    if (utils.hexDataLength(data) < 4) {
+        return
+    }
+    const selector = utils.hexDataSlice(data, 0, 4)
+    const payload = utils.hexDataSlice(data, 4)
+
+    for (const fragment of Object.values(BUILTIN_ERRORS)) {
+        if (utils.Interface.getSighash(fragment) === selector) {
+            return {
+                name: fragment.name,
+                signature: fragment.format(),
+                args: utils.defaultAbiCoder.decode(fragment.inputs, payload),
+                fragment
+            }
+        }
+    }
+
+    for (const decoder of decoders) {
+        const fragment = Object.values(decoder.errors).find(
+            (f) => decoder.getSighash(f) === selector
+        )
+        // eslint-disable-next-line no-undefined
+        if (fragment !== undefined) {
+            return {
+                name: fragment.name,
+                signature: fragment.format(),
+                args: decoder.decodeErrorResult(fragment, data),
+                fragment
+            }
+        }
+    }
+}
+
+/**
+ * Formats decoded revert data into a human-readable string.
+ *
+ * @param decoded revert data
+ */
+export function formatRevert(decoded: DecodedRevert): string {
+    if (decoded.name === 'Panic') {
+        const code = BigNumber.from(decoded.args[0]).toNumber()
+        const description = PANIC_CODES[code] ?? 'unknown panic code'
+        return `Panic(0x${code.toString(16)}): ${description}`
+    }
+    return `${decoded.name}(${formatArgs(
+        decoded.fragment.inputs,
+        decoded.args
+    )})`
+}
+
+/**
+ * Looks for revert data in an error thrown by ethers or by a JSON-RPC node.
+ * Revert data can be nested by providers, so the error is scanned recursively.
+ * Non-empty data is preferred, as ethers can report `0x` next to data of the node.
+ *
+ * @param error thrown by a call or a transaction
+ * @return hex encoded revert data or undefined when there is no revert data
+ */
+export function revertDataOf(error: unknown, depth = 0): string | undefined {
+    const found = _revertDataIn(error, depth)
+    return found.find((data) => utils.hexDataLength(data) > 0) ?? found[0]
+}
+
+/**
+ * Replays a transaction as a call on the state of the block before the
+ * transaction to get its revert data.
+ * Earlier transactions of the same block are not replayed, so revert data
+ * can differ when the transaction depends on them.
+ *
+ * @param provider to perform the call
+ * @param tx to replay
+ * @param blockNumber where the transaction was mined, latest block is used when undefined
+ * @return revert data or undefined when the call hasn't failed
+ */
+export async function replayForRevertData(
+    provider: providers.Provider,
+    tx: Pick<
+        providers.TransactionRequest,
+        'from' | 'to' | 'data' | 'value' | 'gasLimit'
+    >,
+    blockNumber?: number
+): Promise<string | undefined> {
+    const request: providers.TransactionRequest = {
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit
+    }
+    try {
+        await provider.call(
+            request,
+            // eslint-disable-next-line no-undefined
+            blockNumber === undefined ? 'latest' : blockNumber - 1
+        )
+    } catch (error: unknown) {
+        return revertDataOf(error) ?? '0x'
+    }
+}
+
+/**
+ * Awaits the given source and detects if it was reverted.
+ * When a transaction was mined but has failed, then the transaction is replayed
+ * by the provider to get revert data.
+ * Errors without revert data, which are not call exceptions, are thrown as is,
+ * e.g. network, nonce or insufficient funds errors.
+ *
+ * @param source of revert: a call, a transaction or a receipt
+ * @param provider to replay failed transactions
+ */
+export async function revertOutcomeOf(
+    source: RevertSource,
+    provider?: providers.Provider
+): Promise<RevertOutcome> {
+    let value: unknown
+    try {
+        value = await source
+        if (isContractTransaction(value)) {
+            value = await value.wait()
+        }
+    } catch (error: unknown) {
+        const data = revertDataOf(error)
+        // eslint-disable-next-line no-undefined
+        if (data === undefined && !_isCallException(error)) {
+            throw error
+        }
+        // eslint-disable-next-line no-undefined
+        if (data !== undefined || !provider) {
+            return {reverted: true, data, error}
+        }
+        const failed = error as {
+            transaction?: providers.TransactionRequest
+            receipt?: providers.TransactionReceipt
+        }
+        if (failed.transaction) {
+            return {
+                reverted: true,
+                data: await replayForRevertData(
+                    provider,
+                    failed.transaction,
+                    failed.receipt?.blockNumber
+                ),
+                error
+            }
+        }
+        return {reverted: true, error}
+    }
+
+    const receipt = value as providers.TransactionReceipt | undefined
+    if (receipt?.status === 0 && receipt.transactionHash) {
+        if (!provider) {
+            return {reverted: true}
+        }
+        const tx = await provider.getTransaction(receipt.transactionHash)
+        return {
+            reverted: true,
+            data: await replayForRevertData(provider, tx, receipt.blockNumber)
+        }
+    }
+
+    return {reverted: false}
+}
+
+function _isCallException(error: unknown, depth = 0): boolean {
+    if (depth > 5 || typeof error !== 'object' || error === null) {
+        return false
+    }
+    const e = error as Record<string, unknown>
+    return (
+        e.code === utils.Logger.errors.CALL_EXCEPTION ||
+        _isCallException(e.error, depth + 1)
+    )
+}
+
+function _revertDataIn(error: unknown, depth: number): string[] {
+    if (depth > 5 || typeof error !== 'object' || error === null) {
+        return []
+    }
+    const e = error as Record<string, unknown>
+
+    const found: string[] = []
+    // ganache provides revert data of a transaction as `data.result`
+    for (const value of [e.data, e.result]) {
+        if (typeof value === 'string' && utils.isHexString(value)) {
+            found.push(value)
+        }
+    }
+    for (const nested of [e.data, e.error]) {
+        found.push(..._revertDataIn(nested, depth + 1))
+    }
+    if (typeof e.body === 'string') {
+        try {
+            found.push(
+                ..._revertDataIn(JSON.parse(e.body) as unknown, depth + 1)
+            )
+        } catch {
+            // body is not a JSON
+        }
+    }
+    return found
+}
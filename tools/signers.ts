@@ -0,0 +1,237 @@
+import {BigNumber, BigNumberish, providers, Signer, utils} from 'ethers'
+
+/**
+ * A signer resolved on the first use, so contracts can be connected to it
+ * before the signer is available, e.g. to a promise of a signer.
+ */
+export class LazySigner extends Signer {
+    private readonly _source: () => Signer | Promise<Signer>
+    private _signer: Promise<Signer> | undefined
+    private _resolved: Signer | undefined
+
+    /**
+     * @param source of the signer, it is called once
+     * @param provider of the signer when it is known in advance, e.g. for read-only calls
+     */
+    constructor(
+        source: () => Signer | Promise<Signer>,
+        provider?: providers.Provider
+    ) {
+        super()
+        utils.defineReadOnly(this, 'provider', provider)
+        this._source = source
+    }
+
+    /* the signer when it is already resolved */
+    get resolved(): Signer | undefined {
+        return this._resolved
+    }
+
+    public resolve(): Promise<Signer> {
+        // eslint-disable-next-line no-undefined
+        if (this._signer === undefined) {
+            const signer = Promise.resolve().then(this._source)
+            signer.then(
+                (s) => {
+                    this._resolved = s
+                },
+                () => {
+                    // a failed source can be retried
+                    // eslint-disable-next-line no-undefined
+                    this._signer = undefined
+                }
+            )
+            this._signer = signer
+        }
+        return this._signer
+    }
+
+    public async getAddress(): Promise<string> {
+        return (await this.resolve()).getAddress()
+    }
+
+    public async getChainId(): Promise<number> {
+        return (await this.resolve()).getChainId()
+    }
+
+    public async getBalance(blockTag?: providers.BlockTag): Promise<BigNumber> {
+        return (await this.resolve()).getBalance(blockTag)
+    }
+
+    public async getTransactionCount(
+        blockTag?: providers.BlockTag
+    ): Promise<number> {
+        return (await this.resolve()).getTransactionCount(blockTag)
+    }
+
+    public async getGasPrice(): Promise<BigNumber> {
+        return (await this.resolve()).getGasPrice()
+    }
+
+    public async getFeeData(): Promise<providers.FeeData> {
+        return (await this.resolve()).getFeeData()
+    }
+
+    public async resolveName(name: string): Promise<string> {
+        return (await this.resolve()).resolveName(name)
+    }
+
+    public async call(
+        transaction: utils.Deferrable<providers.TransactionRequest>,
+        blockTag?: providers.BlockTag
+    ): Promise<string> {
+        return (await this.resolve()).call(transaction, blockTag)
+    }
+
+    public async estimateGas(
+        transaction: utils.Deferrable<providers.TransactionRequest>
+    ): Promise<BigNumber> {
+        return (await this.resolve()).estimateGas(transaction)
+    }
+
+    public async signMessage(message: utils.Bytes | string): Promise<string> {
+        return (await this.resolve()).signMessage(message)
+    }
+
+    public async signTransaction(
+        transaction: utils.Deferrable<providers.TransactionRequest>
+    ): Promise<string> {
+        return (await this.resolve()).signTransaction(transaction)
+    }
+
+    public async sendTransaction(
+        transaction: utils.Deferrable<providers.TransactionRequest>
+    ): Promise<providers.TransactionResponse> {
+        return (await this.resolve()).sendTransaction(transaction)
+    }
+
+    public connect(provider: providers.Provider): LazySigner {
+        return new LazySigner(
+            async () => (await this.resolve()).connect(provider),
+            provider
+        )
+    }
+}
+
+/**
+ * Resolves a lazy signer, other signers are returned as is.
+ */
+export async function resolveSigner(signer: Signer): Promise<Signer> {
+    return signer instanceof LazySigner ? signer.resolve() : signer
+}
+
+/**
+ * A source of a signer of a pool:
+ * - a signer or a promise of it
+ * - an index of an account of the node, e.g. of hardhat accounts
+ * - a function to provide a signer on the first use, e.g. `impersonated(address)`
+ */
+export type SignerSource =
+    | Signer
+    | Promise<Signer>
+    | number
+    | ((provider: providers.JsonRpcProvider) => Signer | Promise<Signer>)
+
+/**
+ * Signers by named roles, e.g. `admin` or `user1`. A signer is resolved on its first use.
+ */
+export class SignerPool<R extends string = string> {
+    readonly provider: providers.JsonRpcProvider
+    /* roles in the declared order, the first one is the default */
+    readonly roles: R[]
+    private readonly _sources: Record<R, SignerSource>
+    private readonly _signers = new Map<R, LazySigner>()
+
+    constructor(
+        provider: providers.JsonRpcProvider,
+        sources: Record<R, SignerSource>
+    ) {
+        this.provider = provider
+        this.roles = Object.keys(sources) as R[]
+        this._sources = sources
+    }
+
+    /**
+     * Provides a signer of the role, the same instance is returned for every call.
+     */
+    public signer(role: R): LazySigner {
+        let signer = this._signers.get(role)
+        if (!signer) {
+            if (!this.roles.includes(role)) {
+                throw new Error(`Unknown signer role: ${role}`)
+            }
+            const source = this._sources[role]
+            signer = new LazySigner(() => {
+                if (typeof source === 'number') {
+                    return this.provider.getSigner(source)
+                }
+                return typeof source === 'function'
+                    ? source(this.provider)
+                    : source
+            }, this.provider)
+            this._signers.set(role, signer)
+        }
+        return signer
+    }
+
+    public resolve(role: R): Promise<Signer> {
+        return this.signer(role).resolve()
+    }
+
+    public getAddress(role: R): Promise<string> {
+        return this.signer(role).getAddress()
+    }
+}
+
+export interface ImpersonationOptions {
+    /* sets the balance of the account, e.g. to pay for gas */
+    balance?: BigNumberish
+    /* a prefix of JSON-RPC methods of the node, `hardhat` by default, e.g. `anvil` */
+    rpcPrefix?: string
+}
+
+/**
+ * Makes the node to accept transactions from the account without its key.
+ * Only local dev nodes support this, e.g. hardhat or anvil.
+ *
+ * @param provider of the node
+ * @param address of the account
+ * @param options a balance to be set and a prefix of JSON-RPC methods
+ * @return a signer of the account
+ */
+export async function impersonateAccount(
+    provider: providers.JsonRpcProvider,
+    address: string,
+    options?: ImpersonationOptions
+): Promise<providers.JsonRpcSigner> {
+    const prefix = options?.rpcPrefix ?? 'hardhat'
+    await provider.send(`${prefix}_impersonateAccount`, [address])
+    // eslint-disable-next-line no-undefined
+    if (options?.balance !== undefined) {
+        await provider.send(`${prefix}_setBalance`, [
+            address,
+            utils.hexValue(BigNumber.from(options.balance))
+        ])
+    }
+    return provider.getSigner(address)
+}
+
+export async function stopImpersonatingAccount(
+    provider: providers.JsonRpcProvider,
+    address: string,
+    options?: Pick<ImpersonationOptions, 'rpcPrefix'>
+): Promise<void> {
+    await provider.send(
+        `${options?.rpcPrefix ?? 'hardhat'}_stopImpersonatingAccount`,
+        [address]
+    )
+}
+
+/**
+ * A source of an impersonated signer for a signer pool,
+ * the account is impersonated on the first use.
+ */
+export const impersonated =
+    (address: string, options?: ImpersonationOptions) =>
+    (provider: providers.JsonRpcProvider): Promise<providers.JsonRpcSigner> =>
+        impersonateAccount(provider, address, options)
@@ -1,3 +1,5 @@
+import {providers, utils} from 'ethers'
+
 const PAUSE_TIME_INCREMENT_MS = 100
 
 /**
@@ -30,3 +32,134 @@ function sleep(ms: number): Promise<unknown> {
         setTimeout(resolve, ms)
     })
 }
+
+/**
+ * A limit of awaiting on chain, by a number of blocks or by chain time, whichever comes first.
+ */
+export interface ChainDeadline {
+    /* a number of blocks after the latest one */
+    blocks?: number
+    /* a timestamp of a block, in seconds */
+    timestamp?: number
+    /* most amount of time to await, unlimited when undefined, e.g. when no blocks are mined */
+    maximumDelayMs?: number
+}
+
+/**
+ * Delays processing until a number of blocks is mined or until chain time has passed,
+ * with an early exit condition.
+ *
+ * @param earlyStop awaiting the side effect.
+ * @param provider of the chain to watch.
+ * @param deadline blocks or chain time to await at most, and optionally time of the wait.
+ */
+export async function occurrenceAtMostOnChain(
+    earlyStop: SideEffectOccurrence,
+    provider: providers.Provider,
+    deadline: ChainDeadline
+): Promise<void> {
+    // eslint-disable-next-line no-undefined
+    if (deadline.blocks === undefined && deadline.timestamp === undefined) {
+        throw new Error('Chain deadline needs blocks or timestamp')
+    }
+    const start = await provider.getBlock('latest')
+    const lastBlock = start.number + (deadline.blocks ?? Infinity)
+    const lastTimestamp = deadline.timestamp ?? Infinity
+    const maximumDelayMs = deadline.maximumDelayMs ?? Infinity
+    let passedMs = 0
+
+    let block = start
+    while (
+        !earlyStop() &&
+        block.number < lastBlock &&
+        block.timestamp < lastTimestamp &&
+        passedMs < maximumDelayMs
+    ) {
+        await sleep(PAUSE_TIME_INCREMENT_MS)
+        passedMs += PAUSE_TIME_INCREMENT_MS
+        block = await provider.getBlock('latest')
+    }
+}
+
+/**
+ * Timestamp of the latest block, in seconds.
+ */
+export async function latestBlockTimestamp(
+    provider: providers.Provider
+): Promise<number> {
+    return (await provider.getBlock('latest')).timestamp
+}
+
+/**
+ * Moves chain time forward on a local dev node, e.g. hardhat or anvil.
+ *
+ * @param provider of the node.
+ * @param seconds to be added to chain time.
+ * @param mineBlock mines a block with the new time, true by default.
+ */
+export async function increaseTime(
+    provider: providers.JsonRpcProvider,
+    seconds: number,
+    mineBlock = true
+): Promise<void> {
+    await provider.send('evm_increaseTime', [seconds])
+    if (mineBlock) {
+        await mine(provider)
+    }
+}
+
+/**
+ * Sets a timestamp of the next block on a local dev node, the block is not mined.
+ *
+ * @param provider of the node.
+ * @param timestamp in seconds, must be later than the latest block.
+ */
+export async function setNextBlockTimestamp(
+    provider: providers.JsonRpcProvider,
+    timestamp: number
+): Promise<void> {
+    await provider.send('evm_setNextBlockTimestamp', [timestamp])
+}
+
+/**
+ * Mines blocks on a local dev node.
+ *
+ * @param provider of the node.
+ * @param blocks number of blocks to mine, 1 by default.
+ */
+export async function mine(
+    provider: providers.JsonRpcProvider,
+    blocks = 1
+): Promise<void> {
+    if (blocks > 1) {
+        try {
+            await provider.send('hardhat_mine', [utils.hexValue(blocks)])
+            return
+        } catch {
+            // the node mines blocks one by one
+        }
+    }
+    for (let i = 0; i < blocks; i++) {
+        await provider.send('evm_mine', [])
+    }
+}
+
+/**
+ * Mines a block with the given timestamp on a local dev node.
+ *
+ * @param provider of the node.
+ * @param timestamp in seconds, must be later than the latest block.
+ */
+export async function advanceToTimestamp(
+    provider: providers.JsonRpcProvider,
+    timestamp: number
+): Promise<void> {
+    const latest = await latestBlockTimestamp(provider)
+    if (timestamp <= latest) {
+        throw new Error(
+            `Timestamp ${timestamp} is not later than the latest block at ${latest}`
+        )
+    }
+    await setNextBlockTimestamp(provider, timestamp)
+    await mine(provider)
+}
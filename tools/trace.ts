@@ -0,0 +1,206 @@
+import {BigNumber, providers, utils} from 'ethers'
+import {Log} from '@ethersproject/abstract-provider'
+import {
+    decodeKnownFunctionCall,
+    getKnownJsonRpcProvider,
+    knownContractNameOf,
+    knownInterfaceOf,
+    knownInterfaces
+} from './known-contracts'
+import {decodeLogs, formatLogEntries, ReceiptLogEntry} from './receipt-decoder'
+import {
+    DecodedRevert,
+    decodeRevertData,
+    formatArgs,
+    formatRevert
+} from './revert'
+
+/**
+ * A frame of `callTracer` of `debug_traceTransaction`.
+ */
+export interface CallTracerFrame {
+    type: string
+    from: string
+    to?: string
+    value?: string
+    gasUsed?: string
+    input: string
+    output?: string
+    error?: string
+    calls?: CallTracerFrame[]
+    /* provided by nodes which support `withLog` of the tracer */
+    logs?: Pick<Log, 'address' | 'topics' | 'data'>[]
+}
+
+/**
+ * A call of a transaction, decoded by known contract types.
+ */
+export interface TracedCall {
+    /* CALL, STATICCALL, DELEGATECALL, CREATE, CREATE2 etc */
+    type: string
+    depth: number
+    from: string
+    /* address of the code, i.e. of the implementation for DELEGATECALL */
+    to: string
+    value: BigNumber
+    gasUsed: BigNumber
+    contractName?: string
+    /* a function name, `constructor` for a creation, or a selector when unknown */
+    method?: string
+    fragment?: utils.FunctionFragment
+    args?: utils.Result
+    /* decoded return values, when the call is decoded and hasn't failed */
+    result?: utils.Result
+    output: string
+    /* an error reported by the tracer, e.g. `execution reverted` */
+    error?: string
+    revert?: DecodedRevert
+    /* events emitted directly by this call */
+    events: ReceiptLogEntry[]
+    calls: TracedCall[]
+}
+
+export interface TraceOptions {
+    /* a provider of a node with `debug_traceTransaction`, the known one by default */
+    provider?: providers.JsonRpcProvider
+}
+
+/**
+ * Traces calls of a transaction by `callTracer` of the node. Calls, return values,
+ * reverts and events are decoded by known contract types, i.e. the ones of wrapImportedFactories().
+ *
+ * @param txHash of the transaction
+ * @param options a provider of the node
+ * @return the top-level call with nested calls
+ */
+export async function traceTransaction(
+    txHash: string,
+    options?: TraceOptions
+): Promise<TracedCall> {
+    const provider =
+        options?.provider ??
+        getKnownJsonRpcProvider(
+            'Tracing needs a provider of a node with debug API'
+        )
+    const frame = (await provider.send('debug_traceTransaction', [
+        txHash,
+        {tracer: 'callTracer', tracerConfig: {withLog: true}}
+    ])) as CallTracerFrame
+    return decodeCallFrame(frame)
+}
+
+/**
+ * Decodes a frame of `callTracer` and its nested frames.
+ */
+export function decodeCallFrame(frame: CallTracerFrame, depth = 0): TracedCall {
+    const to = frame.to ?? ''
+    const output = frame.output ?? '0x'
+    const isCreation = frame.type.startsWith('CREATE')
+    const call: TracedCall = {
+        type: frame.type,
+        depth,
+        from: frame.from,
+        to,
+        value: BigNumber.from(frame.value ?? 0),
+        gasUsed: BigNumber.from(frame.gasUsed ?? 0),
+        contractName: knownContractNameOf(to),
+        output,
+        error: frame.error,
+        events: decodeLogs(
+            (frame.logs ?? []).map((log, index) => ({
+                ...log,
+                logIndex: index
+            })) as Log[],
+            knownInterfaces(),
+            knownContractNameOf
+        ),
+        calls: (frame.calls ?? []).map((nested) =>
+            decodeCallFrame(nested, depth + 1)
+        )
+    }
+
+    if (isCreation) {
+        call.method = 'constructor'
+    } else if (utils.hexDataLength(frame.input) >= 4) {
+        const [decoded] = decodeKnownFunctionCall(to, frame.input)
+        if (decoded) {
+            call.contractName = call.contractName ?? decoded.contractName
+            call.method = decoded.description.name
+            call.fragment = decoded.description.functionFragment
+            call.args = decoded.description.args
+        } else {
+            call.method = utils.hexDataSlice(frame.input, 0, 4)
+        }
+    }
+
+    if (frame.error) {
+        call.revert = _decodeRevert(output, call.contractName)
+    } else if (call.fragment && call.contractName) {
+        try {
+            call.result = knownInterfaceOf(
+                call.contractName
+            )?.decodeFunctionResult(call.fragment, output)
+        } catch {
+            // the output doesn't match the function
+        }
+    }
+    return call
+}
+
+/**
+ * Formats a traced call into human-readable lines, nested calls are indented.
+ */
+export function formatTrace(call: TracedCall): string {
+    const indent = '    '.repeat(call.depth)
+    const target = call.contractName
+        ? `${call.contractName}(${call.to})`
+        : call.to
+    const args =
+        call.fragment && call.args
+            ? formatArgs(call.fragment.inputs, call.args)
+            : ''
+    let line = `${indent}${call.type} ${target}`
+    if (call.method) {
+        line += `.${call.method}(${args})`
+    }
+    if (call.result && call.fragment) {
+        line += ` => (${formatArgs(call.fragment.outputs ?? [], call.result)})`
+    }
+    if (!call.value.isZero()) {
+        line += ` value: ${call.value.toString()}`
+    }
+    line += ` [gas ${call.gasUsed.toString()}]`
+    if (call.error) {
+        line += ` failed: ${
+            call.revert ? formatRevert(call.revert) : call.error
+        }`
+    }
+
+    const lines = [line]
+    if (call.events.length > 0) {
+        lines.push(
+            ...formatLogEntries(call.events)
+                .split('\n')
+                .map((event) => `${indent}    emit ${event}`)
+        )
+    }
+    lines.push(...call.calls.map(formatTrace))
+    return lines.join('\n')
+}
+
+function _decodeRevert(
+    data: string,
+    contractName?: string
+): DecodedRevert | undefined {
+    const decoders = [...knownInterfaces().values()]
+    const decoder = contractName && knownInterfaceOf(contractName)
+    if (decoder) {
+        // errors of the called contract are tried first
+        decoders.unshift(decoder)
+    }
+    try {
+        return decodeRevertData(data, ...decoders)
+    } catch {
+        // not a revert data
+    }
+}
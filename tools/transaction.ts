@@ -1,6 +1,22 @@
 import {expect} from 'chai'
-import {ContractTransaction} from 'ethers'
+import {ContractTransaction, providers, utils} from 'ethers'
 import {ContractReceipt} from '@ethersproject/contracts/src.ts/index'
+import {
+    decodeKnownFunctionCall,
+    getKnownProvider,
+    knownContractNameOf,
+    knownInterfaceOf,
+    knownInterfaces
+} from './known-contracts'
+import {
+    DecodedRevert,
+    decodeRevertData,
+    formatArgs,
+    formatRevert,
+    isContractTransaction,
+    replayForRevertData,
+    revertDataOf
+} from './revert'
 
 export type ContractReceiptSource =
     | ContractReceipt
@@ -8,6 +24,8 @@ export type ContractReceiptSource =
     | ContractTransaction
     | Promise<ContractTransaction>
 
+export type RevertSource = ContractReceiptSource | Promise<unknown>
+
 export async function contractReceiptOf(
     av: ContractReceiptSource,
     confirmations?: number
@@ -16,21 +34,428 @@ export async function contractReceiptOf(
     return 'gasUsed' in v ? v : v.wait(confirmations)
 }
 
+export type TransactionFailureKind =
+    | 'revert'
+    | 'out-of-gas'
+    | 'replaced'
+    | 'dropped'
+    | 'timeout'
+
+export interface TransactionFailureDetails {
+    kind: TransactionFailureKind
+    transactionHash?: string
+    to?: string
+    /* a few names are given when the address is unknown and the call matches a few contract types */
+    contractNames: string[]
+    method?: string
+    fragment?: utils.FunctionFragment
+    args?: utils.Result
+    revertData?: string
+    revert?: DecodedRevert
+    receipt?: providers.TransactionReceipt
+    /* a hash of the transaction which replaced the failed one */
+    replacedBy?: string
+    cause?: unknown
+}
+
+/**
+ * A failure of a transaction with decoded details of the call and of the revert.
+ */
+export class TransactionFailure extends Error {
+    readonly details: TransactionFailureDetails
+
+    constructor(details: TransactionFailureDetails) {
+        super(_formatFailure(details))
+        this.name = 'TransactionFailure'
+        this.details = details
+    }
+}
+
+// Transaction status code https://eips.ethereum.org/EIPS/eip-1066
+const SUCCESS = 1
+
 /**
  * The expectation is successful transaction (with receipt).
  *
+ * When the transaction has failed, then a TransactionFailure is thrown.
+ * A failed transaction is replayed by the provider to get revert data,
+ * and both the call and the revert data are decoded with contract types
+ * known from wrapImportedFactories().
+ *
  * @param transaction waits for the receipt, verifying it is a success.
+ * @param timeoutMs most amount of time to await the receipt, unlimited when undefined.
  */
 export async function successfulTransaction(
-    transaction: ContractReceiptSource
+    transaction: ContractReceiptSource,
+    timeoutMs?: number
+): Promise<ContractReceipt> {
+    const [receipt, tx] = await _successfulReceiptOf(transaction, timeoutMs)
+    await notifyTransactionObservers(receipt, tx)
+    return receipt
+}
+
+/**
+ * Same as `successfulTransaction`, but observers of transactions are not notified,
+ * e.g. when the caller notifies them with details of a deployment.
+ */
+export async function successfulUnobservedTransaction(
+    transaction: ContractReceiptSource,
+    timeoutMs?: number
 ): Promise<ContractReceipt> {
-    const receipt = await contractReceiptOf(transaction, 1)
+    return (await _successfulReceiptOf(transaction, timeoutMs))[0]
+}
+
+/**
+ * Receives successful transactions, e.g. to record gas usage.
+ */
+export interface TransactionObserver {
+    (
+        receipt: ContractReceipt,
+        tx?: providers.TransactionResponse
+    ): void | Promise<void>
+}
+
+interface ObserverEntry {
+    observer: TransactionObserver
+    onError: (error: unknown) => void
+}
 
-    // Transaction status code https://eips.ethereum.org/EIPS/eip-1066
-    const SUCCESS = 1
+const observers: ObserverEntry[] = []
+
+/**
+ * Adds an observer of transactions checked by `successfulTransaction`
+ * and of deployments made by wrapImportedFactories().
+ * A failed observer doesn't fail the transaction, its error is reported by `onError`.
+ *
+ * @param observer to receive receipts of successful transactions
+ * @param onError receives errors of the observer, they are emitted as process warnings by default
+ * @return a function to remove the observer
+ */
+export function observeTransactions(
+    observer: TransactionObserver,
+    onError: (error: unknown) => void = _emitObserverWarning
+): () => void {
+    const entry = {observer, onError}
+    observers.push(entry)
+    return () => {
+        const index = observers.indexOf(entry)
+        if (index >= 0) {
+            observers.splice(index, 1)
+        }
+    }
+}
+
+export function hasTransactionObservers(): boolean {
+    return observers.length > 0
+}
+
+export async function notifyTransactionObservers(
+    receipt: ContractReceipt,
+    tx?: providers.TransactionResponse
+): Promise<void> {
+    for (const {observer, onError} of [...observers]) {
+        try {
+            await observer(receipt, tx)
+        } catch (error: unknown) {
+            onError(error)
+        }
+    }
+}
+
+async function _successfulReceiptOf(
+    transaction: ContractReceiptSource,
+    timeoutMs?: number
+): Promise<[ContractReceipt, ContractTransaction?]> {
+    let tx: ContractTransaction | undefined
+    let receipt: ContractReceipt
+    try {
+        const v = await transaction
+        if (isContractTransaction(v)) {
+            tx = v
+            receipt = await _waitReceipt(v, timeoutMs)
+        } else {
+            receipt = v
+        }
+    } catch (error: unknown) {
+        const replaced = _successfulReplacement(error)
+        if (!replaced) {
+            throw await _failureOfError(error, tx)
+        }
+        receipt = replaced
+    }
 
     expect(receipt).is.not.undefined
-    expect(receipt.status).equals(SUCCESS)
+    if (receipt.status !== SUCCESS) {
+        throw await _failureOfReceipt(receipt, tx)
+    }
 
-    return receipt
+    // a replacement has its own transaction
+    return [
+        receipt,
+        // eslint-disable-next-line no-undefined
+        tx?.hash === receipt.transactionHash ? tx : undefined
+    ]
+}
+
+async function _waitReceipt(
+    tx: ContractTransaction,
+    timeoutMs?: number
+): Promise<ContractReceipt> {
+    // eslint-disable-next-line no-undefined
+    if (timeoutMs === undefined) {
+        return tx.wait(1)
+    }
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+            reject(
+                Object.assign(new Error('timeout'), {
+                    code: utils.Logger.errors.TIMEOUT
+                })
+            )
+        }, timeoutMs)
+    })
+    try {
+        return await Promise.race([tx.wait(1), timeout])
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+interface EthersTransactionError {
+    code?: string
+    reason?: string
+    cancelled?: boolean
+    hash?: string
+    transaction?: providers.TransactionResponse
+    replacement?: providers.TransactionResponse
+    receipt?: ContractReceipt
+}
+
+/*
+ * A repriced transaction (same call with a higher fee) is not a failure
+ * when the replacement has succeeded.
+ */
+function _successfulReplacement(error: unknown): ContractReceipt | undefined {
+    const e = error as EthersTransactionError
+    if (
+        e.code === utils.Logger.errors.TRANSACTION_REPLACED &&
+        e.cancelled === false &&
+        e.receipt?.status === SUCCESS
+    ) {
+        return e.receipt
+    }
+}
+
+async function _failureOfError(
+    error: unknown,
+    tx?: ContractTransaction
+): Promise<Error> {
+    const e = error as EthersTransactionError
+    const provider = getKnownProvider()
+
+    switch (e.code) {
+        case utils.Logger.errors.CALL_EXCEPTION:
+            if (e.receipt) {
+                return _failureOfReceipt(e.receipt, e.transaction ?? tx)
+            }
+            break
+        case utils.Logger.errors.TRANSACTION_REPLACED:
+            return new TransactionFailure({
+                ..._describeCall(tx ?? e.transaction),
+                kind: 'replaced',
+                transactionHash: e.hash ?? tx?.hash,
+                replacedBy: e.replacement?.hash,
+                receipt: e.receipt,
+                cause: error
+            })
+        case utils.Logger.errors.TIMEOUT:
+            if (tx) {
+                const pending = provider
+                    ? await provider.getTransaction(tx.hash)
+                    : tx
+                return new TransactionFailure({
+                    ..._describeCall(tx),
+                    kind: pending ? 'timeout' : 'dropped',
+                    transactionHash: tx.hash,
+                    cause: error
+                })
+            }
+            break
+        default:
+    }
+
+    // a transaction can be rejected by a node before mining, e.g. by gas estimation
+    const revertData = revertDataOf(error)
+    // eslint-disable-next-line no-undefined
+    if (revertData === undefined) {
+        return error as Error
+    }
+    const call = _describeCall(tx ?? e.transaction)
+    return new TransactionFailure({
+        ...call,
+        kind: 'revert',
+        transactionHash: tx?.hash,
+        revertData,
+        revert: _decodeRevert(revertData, call.contractNames),
+        cause: error
+    })
+}
+
+async function _failureOfReceipt(
+    receipt: providers.TransactionReceipt,
+    knownTx?: providers.TransactionResponse
+): Promise<TransactionFailure> {
+    const provider = getKnownProvider()
+    const tx =
+        knownTx ?? (await provider?.getTransaction(receipt.transactionHash))
+    const call = _describeCall(tx)
+
+    if (tx && receipt.gasUsed.gte(tx.gasLimit)) {
+        return new TransactionFailure({
+            ...call,
+            kind: 'out-of-gas',
+            transactionHash: receipt.transactionHash,
+            receipt
+        })
+    }
+
+    const details: TransactionFailureDetails = {
+        ...call,
+        kind: 'revert',
+        transactionHash: receipt.transactionHash,
+        receipt
+    }
+    if (tx && provider) {
+        details.revertData = await replayForRevertData(
+            provider,
+            tx,
+            receipt.blockNumber
+        )
+        if (details.revertData) {
+            details.revert = _decodeRevert(
+                details.revertData,
+                call.contractNames
+            )
+        }
+    }
+    return new TransactionFailure(details)
+}
+
+function _describeCall(
+    tx?: Pick<providers.TransactionRequest, 'to' | 'data'>
+): Pick<
+    TransactionFailureDetails,
+    'to' | 'contractNames' | 'method' | 'fragment' | 'args'
+> {
+    if (!tx) {
+        return {contractNames: []}
+    }
+    const to = tx.to
+    const data = tx.data ? utils.hexlify(tx.data) : '0x'
+    const calls = decodeKnownFunctionCall(to, data)
+    if (calls.length === 0) {
+        const knownName = knownContractNameOf(to)
+        return {to, contractNames: knownName ? [knownName] : []}
+    }
+    const [first] = calls
+    return {
+        to,
+        contractNames: calls.map((call) => call.contractName),
+        method: first.description.name,
+        fragment: first.description.functionFragment,
+        args: first.description.args
+    }
+}
+
+/*
+ * Custom errors of the called contract are tried first,
+ * then errors of all other known contract types, as the revert can be bubbled from a nested call.
+ */
+function _decodeRevert(
+    data: string,
+    contractNames: string[]
+): DecodedRevert | undefined {
+    const decoders: utils.Interface[] = []
+    for (const name of contractNames) {
+        const decoder = knownInterfaceOf(name)
+        if (decoder) {
+            decoders.push(decoder)
+        }
+    }
+    decoders.push(...knownInterfaces().values())
+    return decodeRevertData(data, ...decoders)
+}
+
+function _formatFailure(details: TransactionFailureDetails): string {
+    const lines: string[] = []
+    const hash = details.transactionHash ?? '(not mined)'
+
+    switch (details.kind) {
+        case 'revert': {
+            let reason = 'revert data is not available'
+            if (details.revert) {
+                reason = formatRevert(details.revert)
+            } else if (details.revertData) {
+                reason =
+                    utils.hexDataLength(details.revertData) === 0
+                        ? 'reverted without reason'
+                        : `unknown revert data ${details.revertData}`
+            }
+            lines.push(`Transaction ${hash} was reverted: ${reason}`)
+            break
+        }
+        case 'out-of-gas':
+            lines.push(`Transaction ${hash} ran out of gas`)
+            break
+        case 'replaced':
+            lines.push(
+                `Transaction ${hash} was replaced by ${
+                    details.replacedBy ?? 'another transaction'
+                }`
+            )
+            break
+        case 'dropped':
+            lines.push(`Transaction ${hash} was dropped`)
+            break
+        case 'timeout':
+            lines.push(`Transaction ${hash} is still pending`)
+            break
+        default:
+    }
+
+    const contract =
+        details.contractNames.length > 0
+            ? details.contractNames.join(' | ')
+            : 'unknown contract'
+    if (details.to) {
+        lines.push(`    target: ${contract} at ${details.to}`)
+    } else if (details.contractNames.length > 0 || details.method) {
+        lines.push(`    target: ${contract}`)
+    }
+    if (details.method) {
+        lines.push(`    method: ${details.method}`)
+    }
+    if (details.fragment && details.args) {
+        lines.push(
+            `    args: ${formatArgs(details.fragment.inputs, details.args)}`
+        )
+    }
+    if (details.receipt) {
+        lines.push(
+            `    block: ${
+                details.receipt.blockNumber
+            }, gas used: ${details.receipt.gasUsed.toString()}`
+        )
+    }
+    return lines.join('\n')
+}
+
+function _emitObserverWarning(error: unknown): void {
+    process.emitWarning(
+        `Transaction observer has failed: ${
+            error instanceof Error ? error.message : String(error)
+        }`
+    )
 }
@@ -0,0 +1,368 @@
+import {BigNumber, BigNumberish, utils} from 'ethers'
+
+/**
+ * Matches a decoded value, can be used in place of any expected value
+ * of event or error arguments, including nested values of structs and arrays.
+ */
+export interface ValueMatcher {
+    readonly isValueMatcher: true
+
+    /**
+     * @param actual a decoded value
+     * @param param ABI type of the value, when known
+     */
+    matches(actual: unknown, param?: utils.ParamType): boolean
+
+    toString(): string
+}
+
+/**
+ * An expected value of a decoded value of type T.
+ * Numbers can be given as any BigNumberish, and any value can be replaced by a matcher.
+ */
+export type Matchable<T> =
+    | ValueMatcher
+    | (T extends BigNumber
+          ? BigNumberish
+          : T extends string | number | boolean
+          ? T
+          : T extends Array<infer E>
+          ? Matchable<E>[] | MatchableFields<T>
+          : T extends object
+          ? MatchableFields<T>
+          : T)
+
+export type MatchableFields<T> = {
+    [K in Exclude<keyof T, keyof unknown[]>]?: Matchable<T[K]> | null
+}
+
+export const isValueMatcher = (value: unknown): value is ValueMatcher =>
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Partial<ValueMatcher>).isValueMatcher === true
+
+/**
+ * Matches any value.
+ */
+export const anyValue = (): ValueMatcher =>
+    // eslint-disable-next-line no-undefined
+    _matcher('anyValue()', (actual) => actual !== undefined)
+
+/**
+ * Matches a numeric value greater than the given one.
+ */
+export const gt = (value: BigNumberish): ValueMatcher =>
+    _numericMatcher(`gt(${_formatNumber(value)})`, (v) => v.gt(value))
+
+/**
+ * Matches a numeric value greater than or equal to the given one.
+ */
+export const gte = (value: BigNumberish): ValueMatcher =>
+    _numericMatcher(`gte(${_formatNumber(value)})`, (v) => v.gte(value))
+
+/**
+ * Matches a numeric value less than the given one.
+ */
+export const lt = (value: BigNumberish): ValueMatcher =>
+    _numericMatcher(`lt(${_formatNumber(value)})`, (v) => v.lt(value))
+
+/**
+ * Matches a numeric value less than or equal to the given one.
+ */
+export const lte = (value: BigNumberish): ValueMatcher =>
+    _numericMatcher(`lte(${_formatNumber(value)})`, (v) => v.lte(value))
+
+/**
+ * Matches a numeric value within the given range, both bounds are inclusive.
+ */
+export const between = (min: BigNumberish, max: BigNumberish): ValueMatcher =>
+    _numericMatcher(
+        `between(${_formatNumber(min)}, ${_formatNumber(max)})`,
+        (v) => v.gte(min) && v.lte(max)
+    )
+
+/**
+ * Matches a value equal to any of the given ones, values can also be matchers.
+ */
+export const oneOf = (values: unknown[]): ValueMatcher =>
+    _matcher(
+        `oneOf([${values.map(describeValue).join(', ')}])`,
+        (actual, param) =>
+            values.some((value) => matchValue(value, actual, param))
+    )
+
+/**
+ * Matches a value accepted by the given predicate.
+ *
+ * @param predicate receives the decoded value
+ * @param description to be used in error messages, the name of the predicate by default
+ */
+export const where = <T = unknown>(
+    predicate: (actual: T) => boolean,
+    description?: string
+): ValueMatcher =>
+    _matcher(`where(${description ?? (predicate.name || 'fn')})`, (actual) =>
+        predicate(actual as T)
+    )
+
+/**
+ * Matches a decoded value by the expected one according to the ABI type of the value:
+ * - numbers are compared by value, the expected one can be any BigNumberish
+ * - addresses and bytes are compared case-insensitively
+ * - arrays are compared by length and by elements
+ * - structs are compared by the given fields or elements, null or undefined are skipped
+ * - indexed dynamic values decoded as `Indexed` are compared by hash
+ * - a matcher is applied to the decoded value
+ *
+ * @param expected value or matcher
+ * @param actual decoded value
+ * @param param ABI type of the value, a loose comparison is used when undefined
+ * @return true when the value is matched
+ */
+export function matchValue(
+    expected: unknown,
+    actual: unknown,
+    param?: utils.ParamType
+): boolean {
+    if (isValueMatcher(expected)) {
+        return expected.matches(actual, param)
+    }
+    if (utils.Indexed.isIndexed(actual)) {
+        return _matchIndexed(expected, actual, param)
+    }
+    if (!param) {
+        return _matchLoose(expected, actual)
+    }
+
+    switch (param.baseType) {
+        case 'address':
+            return _matchHex(expected, actual)
+        case 'array':
+            return _matchArray(expected, actual, param.arrayChildren)
+        case 'tuple':
+            return _matchStruct(expected, actual, param.components)
+        case 'bool':
+        case 'string':
+            return expected === actual
+        default:
+    }
+    if (param.baseType.startsWith('bytes')) {
+        return _matchHex(expected, actual)
+    }
+    if (/^u?int/.test(param.baseType)) {
+        return _matchNumber(expected, actual)
+    }
+    return _matchLoose(expected, actual)
+}
+
+/**
+ * Hashes a value of an indexed parameter of a dynamic type, i.e. `string`, `bytes`,
+ * an array or a struct, the same way as it is stored in a topic of an event.
+ *
+ * @param value a plain value
+ * @param param ABI type of the value
+ * @return the hash or undefined when the value can't be encoded by the type
+ */
+export function indexedHashOf(
+    value: unknown,
+    param: utils.ParamType
+): string | undefined {
+    try {
+        switch (param.baseType) {
+            case 'string':
+                return utils.id(value as string)
+            case 'bytes':
+                return utils.keccak256(value as utils.BytesLike)
+            case 'array':
+            case 'tuple':
+                return utils.keccak256(_encodeInPlace(value, param))
+            default:
+        }
+    } catch {
+        // not encodable
+    }
+}
+
+/**
+ * Formats an expected or a decoded value for error messages.
+ */
+export function describeValue(value: unknown): string {
+    if (isValueMatcher(value)) {
+        return value.toString()
+    }
+    if (utils.Indexed.isIndexed(value)) {
+        return `Indexed(${value.hash})`
+    }
+    if (BigNumber.isBigNumber(value)) {
+        return `${value.toString()} (BigNumber)`
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(describeValue).join(', ')}]`
+    }
+    if (typeof value === 'string') {
+        return JSON.stringify(value)
+    }
+    return `${String(value)} (${typeof value})`
+}
+
+function _matcher(
+    description: string,
+    matches: (actual: unknown, param?: utils.ParamType) => boolean
+): ValueMatcher {
+    return {
+        isValueMatcher: true,
+        matches,
+        toString: () => description
+    }
+}
+
+function _numericMatcher(
+    description: string,
+    matches: (actual: BigNumber) => boolean
+): ValueMatcher {
+    return _matcher(description, (actual) => {
+        const value = _toBigNumber(actual)
+        return value ? matches(value) : false
+    })
+}
+
+function _formatNumber(value: BigNumberish): string {
+    return _toBigNumber(value)?.toString() ?? String(value)
+}
+
+function _toBigNumber(value: unknown): BigNumber | undefined {
+    try {
+        return BigNumber.from(value)
+    } catch {
+        // not a number
+    }
+}
+
+function _matchIndexed(
+    expected: unknown,
+    actual: utils.Indexed,
+    param?: utils.ParamType
+): boolean {
+    const hash = utils.Indexed.isIndexed(expected)
+        ? expected.hash
+        : param && indexedHashOf(expected, param)
+    return Boolean(hash) && hash?.toLowerCase() === actual.hash.toLowerCase()
+}
+
+/*
+ * Solidity hashes an array or a struct of an indexed parameter by its in-place encoding:
+ * elements are padded to 32 bytes, and there are no offsets nor lengths.
+ * Strings and bytes are padded to a multiple of 32 bytes.
+ */
+function _encodeInPlace(value: unknown, param: utils.ParamType): string {
+    switch (param.baseType) {
+        case 'string':
+        case 'bytes': {
+            const bytes =
+                param.baseType === 'string'
+                    ? utils.toUtf8Bytes(value as string)
+                    : utils.arrayify(value as utils.BytesLike)
+            const padded = new Uint8Array(Math.ceil(bytes.length / 32) * 32)
+            padded.set(bytes)
+            return utils.hexlify(padded)
+        }
+        case 'array':
+            return utils.hexConcat(
+                (value as unknown[]).map((v) =>
+                    _encodeInPlace(v, param.arrayChildren)
+                )
+            )
+        case 'tuple': {
+            const fields = value as Record<string, unknown>
+            return utils.hexConcat(
+                param.components.map((p, i) =>
+                    _encodeInPlace(
+                        Array.isArray(value) ? fields[i] : fields[p.name],
+                        p
+                    )
+                )
+            )
+        }
+        default:
+            return utils.defaultAbiCoder.encode([param], [value])
+    }
+}
+
+function _matchNumber(expected: unknown, actual: unknown): boolean {
+    const e = _toBigNumber(expected)
+    const a = _toBigNumber(actual)
+    return Boolean(e && a && e.eq(a))
+}
+
+function _matchHex(expected: unknown, actual: unknown): boolean {
+    if (!utils.isBytesLike(expected) || !utils.isBytesLike(actual)) {
+        return false
+    }
+    return (
+        utils.hexlify(expected).toLowerCase() ===
+        utils.hexlify(actual).toLowerCase()
+    )
+}
+
+function _matchArray(
+    expected: unknown,
+    actual: unknown,
+    param: utils.ParamType
+): boolean {
+    if (!Array.isArray(expected) || !Array.isArray(actual)) {
+        return false
+    }
+    return (
+        expected.length === actual.length &&
+        expected.every((value, i) => matchValue(value, actual[i], param))
+    )
+}
+
+function _matchStruct(
+    expected: unknown,
+    actual: unknown,
+    params: utils.ParamType[]
+): boolean {
+    if (
+        typeof expected !== 'object' ||
+        expected === null ||
+        typeof actual !== 'object' ||
+        actual === null
+    ) {
+        return false
+    }
+    const fields = actual as Record<string, unknown>
+    const values = expected as Record<string, unknown>
+    return params.every((param, index) => {
+        const byIndex = values[index] ?? null
+        const byName = param.name ? values[param.name] ?? null : null
+        return (
+            (byIndex === null || matchValue(byIndex, fields[index], param)) &&
+            (byName === null || matchValue(byName, fields[index], param))
+        )
+    })
+}
+
+function _matchLoose(expected: unknown, actual: unknown): boolean {
+    if (BigNumber.isBigNumber(actual) || BigNumber.isBigNumber(expected)) {
+        return _matchNumber(expected, actual)
+    }
+    if (typeof expected !== 'object' || expected === null) {
+        return expected === actual
+    }
+    if (typeof actual !== 'object' || actual === null) {
+        return false
+    }
+    if (Array.isArray(expected)) {
+        return (
+            Array.isArray(actual) &&
+            expected.length === actual.length &&
+            expected.every((value, i) => matchValue(value, actual[i]))
+        )
+    }
+    const fields = actual as Record<string, unknown>
+    return Object.entries(expected).every(
+        ([key, value]) =>
+            (value ?? null) === null || matchValue(value, fields[key])
+    )
+}